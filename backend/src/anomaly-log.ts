@@ -0,0 +1,260 @@
+/**
+ * Persistent log of anomaly incidents
+ *
+ * Incidents raised by the anomaly monitor (see anomaly-monitor.ts) are kept
+ * in memory for the API and appended as JSON lines to
+ * data/live/anomalies.ndjson whenever one opens, changes severity or
+ * resolves, so the file stays small while incidents extend on every reading.
+ * On startup the newest version of each incident is read back; incidents
+ * still active when the server stopped are resolved at their last recorded
+ * reading, as their detector state is gone. Incidents that started before
+ * the retention period are dropped and the file is rewritten without them.
+ *
+ * Operator triage (see shared/anomalyTriage.ts) is stored on the incident:
+ * it is kept when the monitor reports a new version of the incident, and
+ * every change is appended as a new version.
+ *
+ * Configuration:
+ *   LIVE_DATA_DIR             Directory of the log file (default ../data/live)
+ *   ANOMALY_RETENTION_DAYS    Days of incidents to keep (default 7)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  Anomaly,
+  AnomalySeverity,
+  AnomalyType,
+} from "../../shared/anomalies";
+import { isSignificantChange } from "../../shared/anomalyLifecycle";
+import {
+  applyTriageUpdate,
+  type TriageUpdate,
+} from "../../shared/anomalyTriage";
+import { DEFAULT_LIVE_DATA_DIR } from "./reading-log";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnomalyQuery {
+  zoneIds?: string[]; // All zones when omitted
+  types?: AnomalyType[]; // All types when omitted
+  severities?: AnomalySeverity[]; // All severities when omitted
+  ids?: string[]; // Only these incidents
+  search?: string; // Text in the triage note (ignoring case)
+  from?: number; // Epoch ms, inclusive (incident start)
+  to?: number; // Epoch ms, exclusive (incident start)
+}
+
+export interface AnomalyLog {
+  record(incident: Anomaly): Anomaly; // Returns the stored version (with triage)
+  get(id: string): Anomaly | undefined;
+  // Returns the updated incident, or undefined if it isn't stored
+  updateTriage(
+    id: string,
+    update: TriageUpdate,
+    now?: Date,
+  ): Anomaly | undefined;
+  query(query: AnomalyQuery): Anomaly[]; // Newest first
+  prune(now?: number): number; // Returns the number of incidents removed
+  retentionMs: number;
+  size(): number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const LOG_FILE_NAME = "anomalies.ndjson";
+
+const DEFAULT_RETENTION_DAYS = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseRetentionDays(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_RETENTION_DAYS;
+  }
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days <= 0) {
+    console.warn(
+      `⚠️  Ignoring invalid ANOMALY_RETENTION_DAYS "${value}" (using ${DEFAULT_RETENTION_DAYS})`,
+    );
+    return DEFAULT_RETENTION_DAYS;
+  }
+  return days;
+}
+
+/**
+ * Close an incident left active by a previous run
+ */
+function resolveInterrupted(incident: Anomaly): Anomaly {
+  return incident.status === "active"
+    ? { ...incident, status: "resolved", endTime: incident.timestamp }
+    : incident;
+}
+
+// ============================================================================
+// Anomaly Log
+// ============================================================================
+
+/**
+ * Open (and create if needed) the anomaly log, loading retained incidents
+ */
+export function openAnomalyLog(
+  dir: string = process.env.LIVE_DATA_DIR ?? DEFAULT_LIVE_DATA_DIR,
+  retentionDays: number = parseRetentionDays(
+    process.env.ANOMALY_RETENTION_DAYS,
+  ),
+): AnomalyLog {
+  const retentionMs = retentionDays * MS_PER_DAY;
+  const filePath = path.join(dir, LOG_FILE_NAME);
+  // Incident id → newest version, in the order incidents opened
+  const incidents = new Map<string, Anomaly>();
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  /**
+   * Read the newest version of each incident (a line cut short by a crash is
+   * skipped rather than failing the load)
+   */
+  function load(): void {
+    if (!fs.existsSync(filePath)) return;
+
+    let skipped = 0;
+    for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        const incident: Anomaly = JSON.parse(line);
+        incidents.set(incident.id, resolveInterrupted(incident));
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️  Skipped ${skipped} malformed anomaly log line(s)`);
+    }
+  }
+
+  /**
+   * Rewrite the file with one line per retained incident
+   */
+  function compact(): void {
+    const lines = Array.from(incidents.values(), (incident) =>
+      JSON.stringify(incident),
+    );
+    fs.writeFileSync(filePath, lines.length > 0 ? `${lines.join("\n")}\n` : "");
+  }
+
+  /**
+   * Drop incidents that started before the retention cutoff from memory
+   */
+  function removeExpired(now: number): number {
+    const cutoff = now - retentionMs;
+    let removed = 0;
+
+    for (const [id, incident] of incidents) {
+      if (Date.parse(incident.startTime) < cutoff) {
+        incidents.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  function prune(now: number = Date.now()): number {
+    const removed = removeExpired(now);
+    if (removed > 0) compact();
+    return removed;
+  }
+
+  function append(incident: Anomaly): void {
+    try {
+      fs.appendFileSync(filePath, `${JSON.stringify(incident)}\n`);
+    } catch (error) {
+      console.error(`⚠️  Anomaly log error: ${(error as Error).message}`);
+    }
+  }
+
+  function record(incident: Anomaly): Anomaly {
+    const previous = incidents.get(incident.id);
+    const stored = previous?.triage
+      ? { ...incident, triage: previous.triage }
+      : incident;
+    incidents.set(incident.id, stored);
+
+    // Few enough writes (not one per reading) to append synchronously
+    if (isSignificantChange(previous, stored)) {
+      append(stored);
+    }
+    return stored;
+  }
+
+  function updateTriage(
+    id: string,
+    update: TriageUpdate,
+    now: Date = new Date(),
+  ): Anomaly | undefined {
+    const incident = incidents.get(id);
+    if (!incident) return undefined;
+
+    const updated = {
+      ...incident,
+      triage: applyTriageUpdate(incident.triage, update, now),
+    };
+    incidents.set(id, updated);
+    append(updated);
+    return updated;
+  }
+
+  function query({
+    zoneIds,
+    types,
+    severities,
+    ids,
+    search,
+    from,
+    to,
+  }: AnomalyQuery): Anomaly[] {
+    const matches: Anomaly[] = [];
+    const idSet = ids ? new Set(ids) : null;
+    const text = search?.trim().toLowerCase();
+
+    for (const incident of incidents.values()) {
+      const start = Date.parse(incident.startTime);
+      if (idSet && !idSet.has(incident.id)) continue;
+      if (zoneIds && !zoneIds.includes(incident.zoneId)) continue;
+      if (types && !types.includes(incident.type)) continue;
+      if (severities && !severities.includes(incident.severity)) continue;
+      if (text && !incident.triage?.note.toLowerCase().includes(text)) {
+        continue;
+      }
+      if (from !== undefined && start < from) continue;
+      if (to !== undefined && start >= to) continue;
+      matches.push(incident);
+    }
+
+    return matches.reverse();
+  }
+
+  load();
+  removeExpired(Date.now());
+  compact(); // Also writes back interrupted incidents as resolved
+
+  return {
+    record,
+    get: (id) => incidents.get(id),
+    updateTriage,
+    query,
+    prune,
+    retentionMs,
+    size: () => incidents.size,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Server-side anomaly monitor
+ *
+ * Runs the shared detectors (see shared/anomalyDetection.ts) on every
+ * generated reading and merges their detections into incidents (see
+ * shared/anomalyLifecycle.ts), so every dashboard sees the same incidents and
+ * detection continues while no one is connected. Each call returns the
+ * incidents it opened or changed, for the server to broadcast, store and
+ * forward to the webhook.
+ *
+ * Drift is measured against the hour-of-day baseline of the historical
+ * dataset when it is available, otherwise against the expected range.
+ */
+
+import type { Anomaly } from "../../shared/anomalies";
+import {
+  createDecouplingDetector,
+  createDriftDetector,
+  createFlatlineDetector,
+  detectAnomaly,
+  detectTemperatureAnomaly,
+  expectedRangeBaseline,
+} from "../../shared/anomalyDetection";
+import {
+  resolveZoneIncidents,
+  trimIncidents,
+  updateIncidents,
+  updateOfflineIncidents,
+} from "../../shared/anomalyLifecycle";
+import {
+  getHourlyBaseline,
+  type BaselineModel,
+} from "../../shared/baselineModel";
+import { createStalenessTracker } from "../../shared/sensorStaleness";
+import type { ZoneConfig } from "../../shared/zones";
+import type { SensorReading } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AnomalyMonitor {
+  // Returns the incidents opened or changed by the reading
+  process(reading: SensorReading, zone: ZoneConfig | undefined): Anomaly[];
+  // Raise sensor-offline incidents for silent zones; returns those changed
+  checkOffline(now: number): Anomaly[];
+  // Drop a removed zone's state and resolve its incidents; returns those changed
+  forgetZone(zoneId: string): Anomaly[];
+  // Active and recently resolved incidents, oldest first
+  recent(): Anomaly[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Incidents kept for new clients (active incidents are never dropped)
+const MAX_RECENT_INCIDENTS = 50;
+
+// ============================================================================
+// Anomaly Monitor
+// ============================================================================
+
+/**
+ * Incidents in `updated` that are not in `previous` (the lifecycle functions
+ * return unchanged incidents as the same objects)
+ */
+function changedIncidents(previous: Anomaly[], updated: Anomaly[]): Anomaly[] {
+  if (updated === previous) return [];
+
+  const unchanged = new Set(previous);
+  return updated.filter((incident) => !unchanged.has(incident));
+}
+
+/**
+ * Create an anomaly monitor fed with every zone's readings in time order
+ */
+export function createAnomalyMonitor(
+  baselineModel: BaselineModel | null,
+): AnomalyMonitor {
+  const previousReadings = new Map<string, SensorReading>();
+  const flatlineDetector = createFlatlineDetector();
+  // The same-hour historical baseline removes the daily pattern, so a
+  // smaller sustained change than the default is already significant
+  const driftDetector = createDriftDetector(
+    { minChange: 0.07 },
+    baselineModel
+      ? (reading) =>
+          getHourlyBaseline(
+            baselineModel,
+            reading.zoneId,
+            new Date(reading.timestamp),
+          )?.mean ?? null
+      : expectedRangeBaseline,
+  );
+  const decouplingDetector = createDecouplingDetector();
+  const staleness = createStalenessTracker();
+  let incidents: Anomaly[] = [];
+
+  function apply(updated: Anomaly[]): Anomaly[] {
+    const trimmed = trimIncidents(updated, MAX_RECENT_INCIDENTS);
+    const changed = changedIncidents(incidents, trimmed);
+    incidents = trimmed;
+    return changed;
+  }
+
+  function process(
+    reading: SensorReading,
+    zone: ZoneConfig | undefined,
+  ): Anomaly[] {
+    const previousReading = previousReadings.get(reading.zoneId);
+    previousReadings.set(reading.zoneId, reading);
+    staleness.record(reading, Date.now());
+
+    const detected = [
+      detectAnomaly(reading, zone, previousReading),
+      flatlineDetector.update(reading),
+      driftDetector.update(reading, zone),
+      detectTemperatureAnomaly(reading, zone),
+      decouplingDetector.update(reading),
+    ].filter((anomaly): anomaly is Anomaly => anomaly !== null);
+
+    return apply(updateIncidents(incidents, reading, detected));
+  }
+
+  function checkOffline(now: number): Anomaly[] {
+    return apply(
+      updateOfflineIncidents(incidents, staleness.detectOffline(now)),
+    );
+  }
+
+  function forgetZone(zoneId: string): Anomaly[] {
+    previousReadings.delete(zoneId);
+    flatlineDetector.forget(zoneId);
+    driftDetector.forget(zoneId);
+    decouplingDetector.forget(zoneId);
+    staleness.forget(zoneId);
+    return apply(resolveZoneIncidents(incidents, zoneId));
+  }
+
+  return { process, checkOffline, forgetZone, recent: () => incidents };
+}
@@ -0,0 +1,384 @@
+/**
+ * REST API for historical readings, aggregates and anomaly incidents
+ *
+ * Served from the same HTTP server as the WebSocket endpoint. Everything is
+ * read-only except incident triage.
+ *
+ * Endpoints:
+ *   GET /api/readings?zone=&from=&to=&resolution=&limit=&offset=
+ *     zone        Zone id, or comma-separated ids (default: all zones)
+ *     from, to    ISO timestamps; from is inclusive, to exclusive
+ *     resolution  raw (default) or a bucket size such as 1m, 15m, 1h, 1d;
+ *                 buckets average energy and temperature per zone
+ *     limit       Page size (default 10000, min 1, max 50000)
+ *     offset      Number of results to skip (default 0)
+ *   GET /api/aggregates?zone=&from=&to=&bucket=&limit=&offset=
+ *     bucket      1m, 15m, 1h or 1d; omit for one aggregate per zone over
+ *                 the whole window. Each aggregate has avg/min/max kW,
+ *                 average temperature, reading count and total kWh
+ *   GET /api/readings/range
+ *     First and last timestamp in the dataset
+ *   GET /api/anomalies?zone=&type=&severity=&id=&search=&from=&to=&limit=&offset=
+ *     Stored anomaly incidents (see anomaly-log.ts), newest first; from and
+ *     to filter on the incident start
+ *     type        Anomaly type, or comma-separated types (default: all)
+ *     severity    warning and/or critical, comma-separated (default: both)
+ *     id          Incident id, or comma-separated ids
+ *     search      Text in the triage note (ignoring case)
+ *   PATCH /api/anomalies/:id
+ *     Change an incident's triage with a JSON TriageUpdate (see
+ *     shared/anomalyTriage.ts); responds with the updated incident, which is
+ *     also sent to WebSocket clients
+ *
+ * List endpoints share zone/from/to/limit/offset and respond with
+ * { data, total, limit, offset, nextOffset }.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { parseResolution, type HistoricalStore } from "./historical-store";
+import type { AnomalyLog } from "./anomaly-log";
+import {
+  ANOMALY_TYPES,
+  type Anomaly,
+  type AnomalySeverity,
+  type AnomalyType,
+} from "../../shared/anomalies";
+import {
+  validateTriageUpdate,
+  type TriageUpdate,
+} from "../../shared/anomalyTriage";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 10000;
+const MAX_PAGE_SIZE = 50000;
+
+const AGGREGATE_BUCKETS = ["1m", "15m", "1h", "1d"];
+
+const ANOMALY_SEVERITIES: AnomalySeverity[] = ["warning", "critical"];
+
+const ANOMALY_PATH = /^\/api\/anomalies\/([^/]+)$/;
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+class BadRequestError extends Error {}
+
+class NotFoundError extends Error {}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+  if (error instanceof BadRequestError) {
+    sendJson(res, 400, { error: error.message });
+    return;
+  }
+  if (error instanceof NotFoundError) {
+    sendJson(res, 404, { error: error.message });
+    return;
+  }
+
+  console.error(`⚠️  API error: ${(error as Error).message}`);
+  sendJson(res, 500, { error: "Internal server error" });
+}
+
+/**
+ * Read and parse a JSON request body (at most MAX_BODY_BYTES)
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new BadRequestError("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new BadRequestError("Request body must be JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function parseTimestamp(
+  value: string | null,
+  name: string,
+): number | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new BadRequestError(`Invalid ${name} timestamp "${value}"`);
+  }
+  return time;
+}
+
+function parseCount(
+  value: string | null,
+  name: string,
+  fallback: number,
+): number {
+  if (value === null || value === "") {
+    return fallback;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  }
+  return count;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  return value ? value.split(",").filter(Boolean) : undefined;
+}
+
+/**
+ * Parse a comma-separated list whose entries must be one of `allowed`
+ */
+function parseEnumList<T extends string>(
+  value: string | null,
+  name: string,
+  allowed: readonly T[],
+): T[] | undefined {
+  const list = parseList(value);
+  const invalid = list?.find((entry) => !allowed.includes(entry as T));
+  if (invalid !== undefined) {
+    throw new BadRequestError(
+      `Invalid ${name} "${invalid}" (expected one of ${allowed.join(", ")})`,
+    );
+  }
+  return list as T[] | undefined;
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+interface Page<T> {
+  data: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+/**
+ * Filters shared by the list endpoints
+ */
+function parseFilters(params: URLSearchParams) {
+  return {
+    zoneIds: parseList(params.get("zone")),
+    from: parseTimestamp(params.get("from"), "from"),
+    to: parseTimestamp(params.get("to"), "to"),
+  };
+}
+
+/**
+ * Page size and offset (a zero limit would never advance nextOffset)
+ */
+function parsePage(params: URLSearchParams): { limit: number; offset: number } {
+  const limit = parseCount(params.get("limit"), "limit", DEFAULT_PAGE_SIZE);
+  if (limit < 1) {
+    throw new BadRequestError("limit must be at least 1");
+  }
+
+  return {
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    offset: parseCount(params.get("offset"), "offset", 0),
+  };
+}
+
+function toPage<T>(
+  data: T[],
+  total: number,
+  limit: number,
+  offset: number,
+): Page<T> {
+  const nextOffset = offset + limit;
+  return {
+    data,
+    total,
+    limit,
+    offset,
+    nextOffset: nextOffset < total ? nextOffset : null,
+  };
+}
+
+function paginate<T>(items: T[], params: URLSearchParams): Page<T> {
+  const { limit, offset } = parsePage(params);
+  return toPage(
+    items.slice(offset, offset + limit),
+    items.length,
+    limit,
+    offset,
+  );
+}
+
+function getReadings(params: URLSearchParams, store: HistoricalStore): unknown {
+  let resolutionMs: number | undefined;
+  try {
+    resolutionMs = parseResolution(params.get("resolution"));
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+
+  const { limit, offset } = parsePage(params);
+  const { readings, total } = store.query(
+    { ...parseFilters(params), resolutionMs },
+    offset,
+    limit,
+  );
+  return toPage(readings, total, limit, offset);
+}
+
+function getAggregates(
+  params: URLSearchParams,
+  store: HistoricalStore,
+): unknown {
+  const bucket = params.get("bucket");
+  if (bucket && !AGGREGATE_BUCKETS.includes(bucket)) {
+    throw new BadRequestError(
+      `Invalid bucket "${bucket}" (expected one of ${AGGREGATE_BUCKETS.join(", ")})`,
+    );
+  }
+
+  return paginate(
+    store.aggregate({
+      ...parseFilters(params),
+      bucketMs: parseResolution(bucket),
+    }),
+    params,
+  );
+}
+
+function getAnomalies(
+  params: URLSearchParams,
+  anomalyLog: AnomalyLog,
+): unknown {
+  const query = {
+    ...parseFilters(params),
+    types: parseEnumList<AnomalyType>(
+      params.get("type"),
+      "type",
+      ANOMALY_TYPES,
+    ),
+    severities: parseEnumList(
+      params.get("severity"),
+      "severity",
+      ANOMALY_SEVERITIES,
+    ),
+    ids: parseList(params.get("id")),
+    search: params.get("search") ?? undefined,
+  };
+
+  return paginate(anomalyLog.query(query), params);
+}
+
+async function patchAnomaly(
+  req: IncomingMessage,
+  encodedId: string,
+  anomalyLog: AnomalyLog,
+): Promise<Anomaly> {
+  let id: string;
+  try {
+    id = decodeURIComponent(encodedId);
+  } catch {
+    throw new BadRequestError(`Invalid anomaly id "${encodedId}"`);
+  }
+
+  const update = await readJsonBody(req);
+  const errors = validateTriageUpdate(update);
+  if (errors.length > 0) {
+    throw new BadRequestError(errors.join("; "));
+  }
+
+  const incident = anomalyLog.updateTriage(id, update as TriageUpdate);
+  if (!incident) {
+    throw new NotFoundError(`Anomaly not found: ${id}`);
+  }
+  return incident;
+}
+
+/**
+ * Handle an HTTP request (anything outside /api returns 404)
+ *
+ * Incidents whose triage changed are passed to onIncidentChanged.
+ */
+export function handleApiRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  store: HistoricalStore,
+  anomalyLog: AnomalyLog,
+  onIncidentChanged: (incident: Anomaly) => void,
+): void {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, PATCH, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    });
+    res.end();
+    return;
+  }
+
+  const anomalyId = ANOMALY_PATH.exec(url.pathname)?.[1];
+  if (req.method === "PATCH" && anomalyId !== undefined) {
+    patchAnomaly(req, anomalyId, anomalyLog).then(
+      (incident) => {
+        onIncidentChanged(incident);
+        sendJson(res, 200, incident);
+      },
+      (error) => sendError(res, error),
+    );
+    return;
+  }
+
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: `Method ${req.method} not allowed` });
+    return;
+  }
+
+  try {
+    switch (url.pathname) {
+      case "/api/readings":
+        sendJson(res, 200, getReadings(url.searchParams, store));
+        return;
+      case "/api/aggregates":
+        sendJson(res, 200, getAggregates(url.searchParams, store));
+        return;
+      case "/api/readings/range":
+        sendJson(res, 200, { range: store.range(), count: store.size() });
+        return;
+      case "/api/anomalies":
+        sendJson(res, 200, getAnomalies(url.searchParams, anomalyLog));
+        return;
+      default:
+        sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+    }
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -2,7 +2,7 @@
  * Historical Data Generator for Ford Energy Dashboard Technical Test
  *
  * Generates 7 days of historical sensor readings with:
- * - 5-second intervals for all 5 zones
+ * - 5-second intervals for all configured zones (5 by default)
  * - ~120,000 total records
  * - Realistic daily patterns (weekday vs weekend)
  * - Embedded anomalies at specific timestamps
@@ -20,36 +20,14 @@
 import * as fs from "fs";
 import * as path from "path";
 import seedrandom from "seedrandom";
+import { loadZonesConfig, type ZoneConfig } from "./zones-config";
+import type { SensorReading } from "./types";
+import { isZoneOperating } from "../../shared/zones";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface ZoneConfig {
-  id: string;
-  name: string;
-  expectedRange: {
-    min: number;
-    max: number;
-  };
-  equipmentCount: number;
-  operatingHours: {
-    type: "24/7" | "scheduled";
-    start: number | null;
-    end: number | null;
-  };
-  baselineTemperature: number;
-}
-
-interface SensorReading {
-  timestamp: string;
-  zoneId: string;
-  zoneName: string;
-  energyKw: number;
-  temperature: number;
-  equipmentCount: number;
-}
-
 interface Anomaly {
   zoneId: string;
   type: "spike" | "drop" | "flatline" | "overnight" | "decline";
@@ -79,49 +57,8 @@ const END_DATE = new Date("2026-01-19T00:00:00.000Z");
 // Interval between readings
 const INTERVAL_SECONDS = 5;
 
-// Zone configurations
-const ZONES: ZoneConfig[] = [
-  {
-    id: "assembly-1",
-    name: "Assembly Line 1",
-    expectedRange: { min: 220, max: 280 },
-    equipmentCount: 12,
-    operatingHours: { type: "24/7", start: null, end: null },
-    baselineTemperature: 22.0,
-  },
-  {
-    id: "paint-shop",
-    name: "Paint Shop",
-    expectedRange: { min: 150, max: 200 },
-    equipmentCount: 8,
-    operatingHours: { type: "scheduled", start: 6, end: 22 },
-    baselineTemperature: 24.0,
-  },
-  {
-    id: "stamping-press",
-    name: "Stamping Press",
-    expectedRange: { min: 300, max: 400 },
-    equipmentCount: 6,
-    operatingHours: { type: "24/7", start: null, end: null },
-    baselineTemperature: 26.0,
-  },
-  {
-    id: "quality-control",
-    name: "Quality Control",
-    expectedRange: { min: 50, max: 80 },
-    equipmentCount: 15,
-    operatingHours: { type: "scheduled", start: 7, end: 19 },
-    baselineTemperature: 20.0,
-  },
-  {
-    id: "warehouse",
-    name: "Warehouse",
-    expectedRange: { min: 20, max: 40 },
-    equipmentCount: 4,
-    operatingHours: { type: "24/7", start: null, end: null },
-    baselineTemperature: 18.0,
-  },
-];
+// Zone configurations (data/zones-config.json)
+const ZONES: ZoneConfig[] = loadZonesConfig();
 
 // ============================================================================
 // Anomalies (embedded at specific times)
@@ -218,21 +155,6 @@ function getActiveAnomaly(zoneId: string, timestamp: Date): Anomaly | null {
   );
 }
 
-/**
- * Check if zone is operating at given time
- */
-function isZoneOperating(zone: ZoneConfig, timestamp: Date): boolean {
-  if (zone.operatingHours.type === "24/7") {
-    return true;
-  }
-
-  const hour = timestamp.getUTCHours();
-  const start = zone.operatingHours.start!;
-  const end = zone.operatingHours.end!;
-
-  return hour >= start && hour < end;
-}
-
 /**
  * Check if date is a weekend
  */
@@ -268,7 +190,7 @@ function generateEnergyReading(
   anomaly: Anomaly | null,
 ): number {
   const hour = timestamp.getUTCHours();
-  const isOperating = isZoneOperating(zone, timestamp);
+  const isOperating = isZoneOperating(zone, hour);
   const weekend = isWeekend(timestamp);
 
   // Base energy in expected range
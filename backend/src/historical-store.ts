@@ -0,0 +1,591 @@
+/**
+ * Historical reading store
+ *
+ * Readings are held in memory in time-sorted buffers: the generated dataset
+ * (data/historical-data.json, produced by generate-data.ts) and the recent
+ * live readings recorded by the mock server. Older live readings stay on disk
+ * and are read from an archive on demand (see reading-log.ts). The store
+ * merges the sources (binary-searching each buffer for the time range) to answer
+ * range/zone queries for the REST API, optionally downsampling to a coarser
+ * resolution so clients only download what they display. Aggregates (avg/min/max/count/kWh per zone and time
+ * bucket) are computed from the raw readings here rather than in the browser.
+ * Set HISTORICAL_DATA_PATH to load a different generated file.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ReadingAggregate, SensorReading } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReadingQuery {
+  zoneIds?: string[]; // All zones when omitted
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, exclusive
+  resolutionMs?: number; // Raw readings when omitted
+}
+
+export interface AggregateQuery {
+  zoneIds?: string[]; // All zones when omitted
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, exclusive
+  bucketMs?: number; // One aggregate per zone for the whole window when omitted
+}
+
+export interface StoredReading extends SensorReading {
+  time: number; // Parsed timestamp (epoch ms)
+  intervalMs: number; // Time until the zone's next reading (capped)
+}
+
+// Time-sorted readings the store can query
+export interface ReadingSource {
+  scan(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): Iterable<StoredReading>;
+  count(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): number;
+  first(): StoredReading | undefined;
+  last(): StoredReading | undefined;
+  size(): number;
+}
+
+export interface ReadingBuffer extends ReadingSource {
+  // Same readings as scan, copied into an array
+  select(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): StoredReading[];
+  append(reading: SensorReading): void;
+  removeBefore(time: number): number; // Returns the number of readings removed
+}
+
+// Readings kept outside memory and read on demand (see reading-log.ts)
+export interface ReadingArchive {
+  // Readings in [from, to), oldest first
+  read(
+    from: number | undefined,
+    to: number | undefined,
+  ): Iterable<SensorReading>;
+  stats(): {
+    count: number;
+    first: SensorReading | undefined;
+    last: SensorReading | undefined;
+  };
+}
+
+export interface ReadingPage {
+  readings: SensorReading[];
+  total: number; // Readings (or buckets) matching the query
+}
+
+export interface HistoricalStore {
+  // One page of the matching readings, oldest first
+  query(query: ReadingQuery, offset: number, limit: number): ReadingPage;
+  aggregate(query: AggregateQuery): ReadingAggregate[];
+  range(): { start: string; end: string } | null;
+  size(): number;
+}
+
+interface Accumulator {
+  first: StoredReading;
+  last: StoredReading;
+  start: number;
+  energy: number;
+  temp: number;
+  min: number;
+  max: number;
+  count: number;
+  energyKwMs: number; // Sum of kW × interval (ms)
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// npm scripts run from backend/, so the data directory is one level up
+export const DEFAULT_HISTORICAL_DATA_PATH = path.resolve(
+  process.cwd(),
+  "../data/historical-data.json",
+);
+
+// Longest gap a single reading is assumed to cover when integrating kWh
+const MAX_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const RESOLUTION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parse a resolution such as "30s", "1m", "15m", "1h" or "1d" into
+ * milliseconds ("raw" or empty means no downsampling)
+ */
+export function parseResolution(value: string | null): number | undefined {
+  if (!value || value === "raw") {
+    return undefined;
+  }
+
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(
+      `Invalid resolution "${value}" (expected e.g. raw, 30s, 1m, 1h, 1d)`,
+    );
+  }
+
+  return Number(match[1]) * RESOLUTION_UNITS_MS[match[2]];
+}
+
+/**
+ * Index of the first reading at or after a time (readings sorted by time)
+ */
+function lowerBound(readings: StoredReading[], time: number): number {
+  let low = 0;
+  let high = readings.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (readings[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function zoneFilter(zoneIds: string[] | undefined): Set<string> | null {
+  return zoneIds && zoneIds.length > 0 ? new Set(zoneIds) : null;
+}
+
+/**
+ * Record each reading's sample interval (gap to the zone's next reading)
+ *
+ * The last reading of a zone reuses the previous interval. Gaps longer than
+ * MAX_SAMPLE_INTERVAL_MS are treated as missing data, not as constant load.
+ */
+function assignIntervals(readings: StoredReading[]): void {
+  const previousByZone = new Map<string, StoredReading>();
+
+  for (const reading of readings) {
+    const previous = previousByZone.get(reading.zoneId);
+    if (previous) {
+      previous.intervalMs = Math.min(
+        reading.time - previous.time,
+        MAX_SAMPLE_INTERVAL_MS,
+      );
+      reading.intervalMs = previous.intervalMs;
+    }
+    previousByZone.set(reading.zoneId, reading);
+  }
+}
+
+/**
+ * Merge time-sorted reading sequences into one time-sorted sequence
+ */
+function* mergeByTime(
+  sequences: Iterable<StoredReading>[],
+): Generator<StoredReading> {
+  const iterators = sequences.map((sequence) => sequence[Symbol.iterator]());
+  const advance = (index: number): StoredReading | undefined => {
+    const result = iterators[index].next();
+    return result.done ? undefined : result.value;
+  };
+  const heads = iterators.map((_, index) => advance(index));
+
+  for (;;) {
+    // Earliest head, preferring earlier sequences on ties
+    let next = -1;
+    heads.forEach((head, index) => {
+      if (head && (next === -1 || head.time < heads[next]!.time)) {
+        next = index;
+      }
+    });
+    if (next === -1) return;
+
+    yield heads[next]!;
+    heads[next] = advance(next);
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Accumulate readings per zone and bucket (a single bucket per zone when
+ * bucketMs is omitted)
+ */
+function accumulate(
+  readings: Iterable<StoredReading>,
+  bucketMs?: number,
+): Accumulator[] {
+  const buckets = new Map<string, Accumulator>();
+
+  for (const reading of readings) {
+    const start = bucketMs
+      ? Math.floor(reading.time / bucketMs) * bucketMs
+      : reading.time;
+    const key = bucketMs ? `${start}|${reading.zoneId}` : reading.zoneId;
+    const bucket = buckets.get(key);
+    const energyKwMs = reading.energyKw * reading.intervalMs;
+
+    if (bucket) {
+      bucket.last = reading;
+      bucket.energy += reading.energyKw;
+      bucket.temp += reading.temperature;
+      bucket.min = Math.min(bucket.min, reading.energyKw);
+      bucket.max = Math.max(bucket.max, reading.energyKw);
+      bucket.count++;
+      bucket.energyKwMs += energyKwMs;
+    } else {
+      buckets.set(key, {
+        first: reading,
+        last: reading,
+        start,
+        energy: reading.energyKw,
+        temp: reading.temperature,
+        min: reading.energyKw,
+        max: reading.energyKw,
+        count: 1,
+        energyKwMs,
+      });
+    }
+  }
+
+  // Map preserves insertion order, which follows the time-sorted input
+  return Array.from(buckets.values());
+}
+
+function toAggregate(bucket: Accumulator, bucketMs?: number): ReadingAggregate {
+  const end = bucketMs ? bucket.start + bucketMs : bucket.last.time;
+
+  return {
+    zoneId: bucket.first.zoneId,
+    zoneName: bucket.first.zoneName,
+    start: new Date(bucket.start).toISOString(),
+    end: new Date(end).toISOString(),
+    avgKw: round(bucket.energy / bucket.count, 1),
+    minKw: bucket.min,
+    maxKw: bucket.max,
+    avgTemperature: round(bucket.temp / bucket.count, 1),
+    count: bucket.count,
+    totalKwh: round(bucket.energyKwMs / MS_PER_HOUR, 2),
+  };
+}
+
+/**
+ * Average readings into fixed buckets per zone (timestamp = bucket start)
+ */
+function downsample(
+  readings: Iterable<StoredReading>,
+  resolutionMs: number,
+): SensorReading[] {
+  return accumulate(readings, resolutionMs).map((bucket) => ({
+    timestamp: new Date(bucket.start).toISOString(),
+    zoneId: bucket.first.zoneId,
+    zoneName: bucket.first.zoneName,
+    energyKw: round(bucket.energy / bucket.count, 1),
+    temperature: round(bucket.temp / bucket.count, 1),
+    equipmentCount: bucket.first.equipmentCount,
+  }));
+}
+
+function toSensorReading({
+  time,
+  intervalMs,
+  ...reading
+}: StoredReading): SensorReading {
+  return reading;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function toStoredReading(reading: SensorReading): StoredReading {
+  return { ...reading, time: Date.parse(reading.timestamp), intervalMs: 0 };
+}
+
+/**
+ * Create a time-sorted buffer of readings (sorted on creation)
+ *
+ * Readings appended later normally arrive in time order and go to the end;
+ * late readings are inserted in place.
+ */
+export function createReadingBuffer(readings: SensorReading[]): ReadingBuffer {
+  const stored = readings.map(toStoredReading).sort((a, b) => a.time - b.time);
+  assignIntervals(stored);
+
+  // Newest reading per zone, whose interval is set by the next append
+  const lastByZone = new Map<string, StoredReading>();
+  for (const reading of stored) {
+    lastByZone.set(reading.zoneId, reading);
+  }
+
+  // Index range of the readings in [from, to), found by binary search
+  function bounds(
+    from: number | undefined,
+    to: number | undefined,
+  ): [number, number] {
+    const startIndex = from === undefined ? 0 : lowerBound(stored, from);
+    const endIndex = to === undefined ? stored.length : lowerBound(stored, to);
+    return [startIndex, Math.max(startIndex, endIndex)];
+  }
+
+  function select(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): StoredReading[] {
+    return Array.from(scan(zoneIds, from, to));
+  }
+
+  function* scan(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): Generator<StoredReading> {
+    const [startIndex, endIndex] = bounds(from, to);
+    const zones = zoneFilter(zoneIds);
+
+    for (let i = startIndex; i < endIndex; i++) {
+      if (!zones || zones.has(stored[i].zoneId)) yield stored[i];
+    }
+  }
+
+  function count(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): number {
+    const [startIndex, endIndex] = bounds(from, to);
+    const zones = zoneFilter(zoneIds);
+    if (!zones) return endIndex - startIndex;
+
+    let matches = 0;
+    for (let i = startIndex; i < endIndex; i++) {
+      if (zones.has(stored[i].zoneId)) matches++;
+    }
+    return matches;
+  }
+
+  function append(reading: SensorReading): void {
+    const entry = toStoredReading(reading);
+    const previous = lastByZone.get(entry.zoneId);
+
+    if (!previous || entry.time >= previous.time) {
+      if (previous) {
+        previous.intervalMs = Math.min(
+          entry.time - previous.time,
+          MAX_SAMPLE_INTERVAL_MS,
+        );
+        entry.intervalMs = previous.intervalMs;
+      }
+      lastByZone.set(entry.zoneId, entry);
+    }
+
+    const last = stored[stored.length - 1];
+    if (!last || entry.time >= last.time) {
+      stored.push(entry);
+    } else {
+      stored.splice(lowerBound(stored, entry.time + 1), 0, entry);
+    }
+  }
+
+  function removeBefore(time: number): number {
+    const count = lowerBound(stored, time);
+    stored.splice(0, count);
+    return count;
+  }
+
+  return {
+    select,
+    scan,
+    count,
+    append,
+    removeBefore,
+    first: () => stored[0],
+    last: () => stored[stored.length - 1],
+    size: () => stored.length,
+  };
+}
+
+/**
+ * Create a source that reads an archive on demand
+ *
+ * Nothing is kept in memory: every scan reads the archive again. A reading's
+ * interval is the gap since the zone's previous reading in the scan (the
+ * next one hasn't been read yet), and the first one per zone gets none.
+ */
+export function createArchiveSource(archive: ReadingArchive): ReadingSource {
+  function* scan(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): Generator<StoredReading> {
+    const zones = zoneFilter(zoneIds);
+    const previousByZone = new Map<string, number>();
+
+    for (const reading of archive.read(from, to)) {
+      if (zones && !zones.has(reading.zoneId)) continue;
+
+      const entry = toStoredReading(reading);
+      const previous = previousByZone.get(entry.zoneId);
+      if (previous !== undefined) {
+        entry.intervalMs = Math.min(
+          entry.time - previous,
+          MAX_SAMPLE_INTERVAL_MS,
+        );
+      }
+      previousByZone.set(entry.zoneId, entry.time);
+      yield entry;
+    }
+  }
+
+  function count(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): number {
+    if (!zoneFilter(zoneIds) && from === undefined && to === undefined) {
+      return archive.stats().count;
+    }
+
+    let matches = 0;
+    for (const _ of scan(zoneIds, from, to)) matches++;
+    return matches;
+  }
+
+  function stat(reading: SensorReading | undefined): StoredReading | undefined {
+    return reading && toStoredReading(reading);
+  }
+
+  return {
+    scan,
+    count,
+    first: () => stat(archive.stats().first),
+    last: () => stat(archive.stats().last),
+    size: () => archive.stats().count,
+  };
+}
+
+/**
+ * Create a store that queries across several reading sources
+ */
+export function createHistoricalStore(
+  buffers: ReadingSource[],
+): HistoricalStore {
+  function scan(
+    zoneIds: string[] | undefined,
+    from: number | undefined,
+    to: number | undefined,
+  ): Iterable<StoredReading> {
+    return mergeByTime(buffers.map((buffer) => buffer.scan(zoneIds, from, to)));
+  }
+
+  /**
+   * Raw pages are counted and read straight from the buffers, skipping to
+   * the offset, so a page never copies the whole matching range
+   */
+  function query(
+    { zoneIds, from, to, resolutionMs }: ReadingQuery,
+    offset: number,
+    limit: number,
+  ): ReadingPage {
+    if (resolutionMs) {
+      const buckets = downsample(scan(zoneIds, from, to), resolutionMs);
+      return {
+        readings: buckets.slice(offset, offset + limit),
+        total: buckets.length,
+      };
+    }
+
+    const total = buffers.reduce(
+      (sum, buffer) => sum + buffer.count(zoneIds, from, to),
+      0,
+    );
+    const readings: SensorReading[] = [];
+    let skipped = 0;
+
+    for (const reading of scan(zoneIds, from, to)) {
+      if (readings.length >= limit) break;
+      if (skipped < offset) {
+        skipped++;
+        continue;
+      }
+      readings.push(toSensorReading(reading));
+    }
+
+    return { readings, total };
+  }
+
+  function aggregate({
+    zoneIds,
+    from,
+    to,
+    bucketMs,
+  }: AggregateQuery): ReadingAggregate[] {
+    return accumulate(scan(zoneIds, from, to), bucketMs).map((bucket) =>
+      toAggregate(bucket, bucketMs),
+    );
+  }
+
+  function range(): { start: string; end: string } | null {
+    const firsts = buffers.flatMap((buffer) => buffer.first() ?? []);
+    const lasts = buffers.flatMap((buffer) => buffer.last() ?? []);
+    if (firsts.length === 0) return null;
+
+    const start = firsts.reduce((a, b) => (b.time < a.time ? b : a));
+    const end = lasts.reduce((a, b) => (b.time > a.time ? b : a));
+    return { start: start.timestamp, end: end.timestamp };
+  }
+
+  return {
+    query,
+    aggregate,
+    range,
+    size: () => buffers.reduce((total, buffer) => total + buffer.size(), 0),
+  };
+}
+
+/**
+ * Load the generated historical dataset into a buffer
+ *
+ * A missing file is not fatal: the API serves an empty dataset and logs a
+ * hint to run the generator.
+ */
+export function loadHistoricalBuffer(
+  dataPath: string = process.env.HISTORICAL_DATA_PATH ??
+    DEFAULT_HISTORICAL_DATA_PATH,
+): ReadingBuffer {
+  if (!fs.existsSync(dataPath)) {
+    console.warn(
+      `⚠️  Historical data not found at ${dataPath} (run npm run generate-data)`,
+    );
+    return createReadingBuffer([]);
+  }
+
+  const readings: SensorReading[] = JSON.parse(
+    fs.readFileSync(dataPath, "utf-8"),
+  );
+  console.log(
+    `📁 Loaded ${readings.length.toLocaleString()} historical readings`,
+  );
+  return createReadingBuffer(readings);
+}
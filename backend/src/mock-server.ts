@@ -1,58 +1,85 @@
 /**
  * Mock WebSocket Server for Ford Energy Dashboard Technical Test
  *
- * This server simulates real-time energy sensor data from 5 manufacturing zones.
- * It broadcasts data every 100ms, rotating through zones.
+ * This server simulates real-time energy sensor data from the manufacturing
+ * zones defined in data/zones-config.json (5 zones by default).
+ * It generates a reading every 100ms, rotating through zones, and broadcasts
+ * it to connected clients (readings are generated and checked for anomalies
+ * even while no client is connected).
  *
  * Features:
  * - Realistic energy consumption patterns per zone
  * - Time-of-day variations (higher usage during operating hours)
  * - Random noise (±5-10% variation)
  * - Anomaly injection (5% chance): spikes, drops, flat-lines
+ * - Occasional sensor dropouts, where a zone stops reporting for a while
+ * - Occasional cooling faults, where temperature climbs at normal energy
  * - Handles client connections/disconnections gracefully
+ * - REST API for historical readings on the same port (see api.ts)
+ * - Broadcast readings persisted to data/live (see reading-log.ts) and
+ *   queryable through the API alongside the generated dataset
+ * - Replays missed readings to reconnecting clients (see shared/protocol.ts)
+ * - Per-client subscriptions to zones, fields and rate (see subscriptions.ts)
+ * - Versioned message envelope with heartbeats, error replies and
+ *   config-changed notifications when zones-config.json is edited
+ * - Ping/pong latency probes, and dead connections dropped when they stop
+ *   answering WebSocket pings
+ * - Anomaly detection on every reading (see anomaly-monitor.ts), with
+ *   incidents broadcast as `anomaly` messages, stored in data/live (see
+ *   anomaly-log.ts) and served by the API
+ * - Critical incidents posted to a webhook when WEBHOOK_URL is set (see
+ *   webhooks.ts)
  *
  * Usage:
  *   npm run dev     # Run with ts-node (development)
  *   npm run build && npm start  # Build and run compiled JS
  */
 
+import * as http from "http";
 import WebSocket, { WebSocketServer } from "ws";
 import seedrandom from "seedrandom";
+import {
+  loadZonesConfig,
+  watchZonesConfig,
+  type ZoneConfig,
+} from "./zones-config";
+import {
+  createArchiveSource,
+  createHistoricalStore,
+  createReadingBuffer,
+  loadHistoricalBuffer,
+} from "./historical-store";
+import { openReadingLog } from "./reading-log";
+import { handleApiRequest } from "./api";
+import { openAnomalyLog } from "./anomaly-log";
+import { createAnomalyMonitor } from "./anomaly-monitor";
+import type { SensorReading } from "./types";
+import { createWebhookDispatcherFromEnv } from "./webhooks";
+import type { Anomaly } from "../../shared/anomalies";
+import { isSignificantChange } from "../../shared/anomalyLifecycle";
+import { buildBaselineModel } from "../../shared/baselineModel";
+import { isZoneOperating } from "../../shared/zones";
+import {
+  MAX_BACKFILL_READINGS,
+  encodeServerMessage,
+  parseClientMessage,
+  type BackfillPayload,
+  type ClientMessage,
+} from "../../shared/protocol";
+import {
+  applySubscribe,
+  applyUnsubscribe,
+  createClientSubscription,
+  isSubscribedZone,
+  projectReading,
+  shouldSend,
+  type ClientSubscription,
+} from "./subscriptions";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface ZoneConfig {
-  id: string;
-  name: string;
-  description: string;
-  location: string;
-  expectedRange: {
-    min: number;
-    max: number;
-  };
-  criticalThreshold: number;
-  equipmentCount: number;
-  operatingHours: {
-    type: "24/7" | "scheduled";
-    start: number | null;
-    end: number | null;
-  };
-  priority: "critical" | "high" | "medium" | "low";
-  costPerKwh: number;
-  baselineTemperature: number;
-}
-
-interface SensorReading {
-  timestamp: string;
-  zoneId: string;
-  zoneName: string;
-  energyKw: number;
-  temperature: number;
-  equipmentCount: number;
-}
-
 type AnomalyType = "spike" | "drop" | "flatline" | null;
 
 // ============================================================================
@@ -63,75 +90,21 @@ const PORT = 8080;
 const BROADCAST_INTERVAL_MS = 100;
 const ANOMALY_CHANCE = 0.05; // 5% chance of anomaly
 const FLATLINE_DURATION_MS = 30000; // 30 seconds
-
-// Zone configurations loaded inline (matches data/zones-config.json)
-const ZONES: ZoneConfig[] = [
-  {
-    id: "assembly-1",
-    name: "Assembly Line 1",
-    description: "Primary vehicle assembly line",
-    location: "Building A, Level 1",
-    expectedRange: { min: 220, max: 280 },
-    criticalThreshold: 350,
-    equipmentCount: 12,
-    operatingHours: { type: "24/7", start: null, end: null },
-    priority: "critical",
-    costPerKwh: 0.12,
-    baselineTemperature: 22.0,
-  },
-  {
-    id: "paint-shop",
-    name: "Paint Shop",
-    description: "Automated painting facility",
-    location: "Building B, Level 1",
-    expectedRange: { min: 150, max: 200 },
-    criticalThreshold: 280,
-    equipmentCount: 8,
-    operatingHours: { type: "scheduled", start: 6, end: 22 },
-    priority: "high",
-    costPerKwh: 0.14,
-    baselineTemperature: 24.0,
-  },
-  {
-    id: "stamping-press",
-    name: "Stamping Press",
-    description: "Heavy-duty hydraulic stamping presses",
-    location: "Building C, Level 1",
-    expectedRange: { min: 300, max: 400 },
-    criticalThreshold: 500,
-    equipmentCount: 6,
-    operatingHours: { type: "24/7", start: null, end: null },
-    priority: "critical",
-    costPerKwh: 0.11,
-    baselineTemperature: 26.0,
-  },
-  {
-    id: "quality-control",
-    name: "Quality Control",
-    description: "Inspection stations",
-    location: "Building A, Level 2",
-    expectedRange: { min: 50, max: 80 },
-    criticalThreshold: 120,
-    equipmentCount: 15,
-    operatingHours: { type: "scheduled", start: 7, end: 19 },
-    priority: "medium",
-    costPerKwh: 0.13,
-    baselineTemperature: 20.0,
-  },
-  {
-    id: "warehouse",
-    name: "Warehouse",
-    description: "Parts storage and logistics",
-    location: "Building D, Level 1",
-    expectedRange: { min: 20, max: 40 },
-    criticalThreshold: 60,
-    equipmentCount: 4,
-    operatingHours: { type: "24/7", start: null, end: null },
-    priority: "low",
-    costPerKwh: 0.1,
-    baselineTemperature: 18.0,
-  },
-];
+const DROPOUT_CHANCE = 0.0005; // Per reading, roughly one dropout every few minutes
+const DROPOUT_DURATION_MS = 20000; // 20 seconds
+const COOLING_FAULT_CHANCE = 0.0003; // Per reading
+const COOLING_FAULT_DURATION_MS = 90000; // 90 seconds
+const COOLING_FAULT_RISE_PER_SECOND = 0.1; // °C
+const COOLING_FAULT_MAX_RISE = 8; // °C
+const RETENTION_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Prune expired live data
+const HEARTBEAT_INTERVAL_MS = 5000;
+const OFFLINE_CHECK_INTERVAL_MS = 1000;
+const INCIDENT_UPDATE_INTERVAL_MS = 5000; // Duration/peak updates per incident
+const RECENT_LOGGED_INCIDENTS = 50; // Stored incidents sent on connecting (the dashboard keeps 50)
+
+// Zone configurations (shared with the frontend via data/zones-config.json,
+// replaced when the file changes)
+let ZONES: ZoneConfig[] = loadZonesConfig();
 
 // ============================================================================
 // State
@@ -146,23 +119,19 @@ const flatlineState: Map<
   { active: boolean; value: number; startTime: number }
 > = new Map();
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
+// Zones whose sensor is not reporting, with the time it comes back
+const dropoutUntil: Map<string, number> = new Map();
 
-/**
- * Check if a zone is currently operating based on its schedule
- */
-function isZoneOperating(zone: ZoneConfig, hour: number): boolean {
-  if (zone.operatingHours.type === "24/7") {
-    return true;
-  }
+// Zones with a failing cooling system, with the time the fault started
+const coolingFaultSince: Map<string, number> = new Map();
 
-  const start = zone.operatingHours.start!;
-  const end = zone.operatingHours.end!;
+// Version of each active incident last sent to clients, and when
+const broadcastIncidents: Map<string, { incident: Anomaly; sentAt: number }> =
+  new Map();
 
-  return hour >= start && hour < end;
-}
+// ============================================================================
+// Helper Functions
+// ============================================================================
 
 /**
  * Calculate time-of-day factor (higher during business hours)
@@ -263,6 +232,33 @@ function generateEnergyReading(zone: ZoneConfig, now: Date): number {
   return Math.max(0, addNoise(energy, 0.05 + rng() * 0.05));
 }
 
+/**
+ * Get the extra heat from a cooling fault in a zone, occasionally starting a
+ * new fault (temperature climbs while energy stays normal)
+ */
+function getCoolingFaultRise(zone: ZoneConfig): number {
+  const since = coolingFaultSince.get(zone.id);
+  if (since !== undefined) {
+    const elapsedMs = Date.now() - since;
+    if (elapsedMs < COOLING_FAULT_DURATION_MS) {
+      return Math.min(
+        (elapsedMs / 1000) * COOLING_FAULT_RISE_PER_SECOND,
+        COOLING_FAULT_MAX_RISE,
+      );
+    }
+    coolingFaultSince.delete(zone.id);
+    console.log(`🌡️  COOLING [${zone.name}]: Fault cleared`);
+  }
+
+  if (rng() < COOLING_FAULT_CHANCE) {
+    coolingFaultSince.set(zone.id, Date.now());
+    console.log(
+      `🌡️  COOLING [${zone.name}]: Fault for ${COOLING_FAULT_DURATION_MS / 1000}s`,
+    );
+  }
+  return 0;
+}
+
 /**
  * Generate temperature reading for a zone
  */
@@ -271,7 +267,32 @@ function generateTemperature(zone: ZoneConfig, energyKw: number): number {
   const energyRatio =
     energyKw / ((zone.expectedRange.min + zone.expectedRange.max) / 2);
   const tempVariation = (energyRatio - 1) * 3; // ±3°C based on energy
-  return addNoise(zone.baselineTemperature + tempVariation, 0.02);
+  return addNoise(
+    zone.baselineTemperature + tempVariation + getCoolingFaultRise(zone),
+    0.02,
+  );
+}
+
+/**
+ * Check whether a zone's sensor is currently dropped out, occasionally
+ * starting a new dropout (simulates the sensor failures in generate-data.ts)
+ */
+function isDroppedOut(zone: ZoneConfig): boolean {
+  const until = dropoutUntil.get(zone.id);
+  if (until !== undefined) {
+    if (Date.now() < until) return true;
+    dropoutUntil.delete(zone.id);
+    console.log(`📡 SENSOR [${zone.name}]: Reporting again`);
+  }
+
+  if (rng() < DROPOUT_CHANCE) {
+    dropoutUntil.set(zone.id, Date.now() + DROPOUT_DURATION_MS);
+    console.log(
+      `📡 SENSOR [${zone.name}]: Dropout for ${DROPOUT_DURATION_MS / 1000}s`,
+    );
+    return true;
+  }
+  return false;
 }
 
 /**
@@ -293,10 +314,67 @@ function generateSensorReading(zone: ZoneConfig): SensorReading {
 }
 
 // ============================================================================
-// WebSocket Server
+// HTTP + WebSocket Server
 // ============================================================================
 
-const wss = new WebSocketServer({ port: PORT });
+// Live readings are persisted and served together with the generated dataset;
+// only recent ones are kept in memory, older ones are read from the archive
+const readingLog = openReadingLog();
+const liveReadings = createReadingBuffer(readingLog.load());
+const historicalBuffer = loadHistoricalBuffer();
+const historicalStore = createHistoricalStore([
+  historicalBuffer,
+  createArchiveSource(readingLog.archive),
+  liveReadings,
+]);
+
+// Incidents are detected here and stored, so every client sees the same ones.
+// Drift uses the generated dataset's hour-of-day baseline when loaded.
+const anomalyLog = openAnomalyLog();
+const anomalyMonitor = createAnomalyMonitor(
+  historicalBuffer.size() > 0
+    ? buildBaselineModel(
+        historicalBuffer.select(undefined, undefined, undefined),
+      )
+    : null,
+);
+
+if (liveReadings.size() > 0) {
+  console.log(
+    `📁 Restored ${liveReadings.size().toLocaleString()} live readings`,
+  );
+}
+
+const server = http.createServer((req, res) =>
+  handleApiRequest(req, res, historicalStore, anomalyLog, broadcastIncident),
+);
+const wss = new WebSocketServer({ server });
+const webhooks = createWebhookDispatcherFromEnv();
+
+server.listen(PORT);
+
+if (anomalyLog.size() > 0) {
+  console.log(
+    `📁 Restored ${anomalyLog.size().toLocaleString()} anomaly incidents`,
+  );
+}
+if (webhooks) {
+  console.log(`🔔 Posting critical incidents to ${process.env.WEBHOOK_URL}`);
+}
+
+/**
+ * Describe a zone for the startup banner, e.g. "Paint Shop (150-200 kW, 6am-10pm)"
+ */
+function describeZone(zone: ZoneConfig): string {
+  const formatHour = (hour: number) =>
+    `${hour % 12 || 12}${hour < 12 || hour === 24 ? "am" : "pm"}`;
+  const { start, end } = zone.operatingHours;
+  const hours =
+    zone.operatingHours.type === "24/7"
+      ? "24/7"
+      : `${formatHour(start!)}-${formatHour(end!)}`;
+  return `${zone.name} (${zone.expectedRange.min}-${zone.expectedRange.max} kW, ${hours})`;
+}
 
 console.log(`
 ╔════════════════════════════════════════════════════════════════╗
@@ -305,14 +383,11 @@ console.log(`
 ║  Status: Running                                               ║
 ║  Port: ${PORT}                                                    ║
 ║  URL: ws://localhost:${PORT}                                      ║
+║  API: http://localhost:${PORT}/api/readings                       ║
 ║  Broadcast interval: ${BROADCAST_INTERVAL_MS}ms                                    ║
 ╠════════════════════════════════════════════════════════════════╣
 ║  Zones:                                                        ║
-║    • Assembly Line 1 (220-280 kW, 24/7)                        ║
-║    • Paint Shop (150-200 kW, 6am-10pm)                         ║
-║    • Stamping Press (300-400 kW, 24/7, spiky)                  ║
-║    • Quality Control (50-80 kW, 7am-7pm)                       ║
-║    • Warehouse (20-40 kW, 24/7)                                ║
+${ZONES.map((zone) => `║    • ${describeZone(zone).padEnd(58)}║`).join("\n")}
 ╠════════════════════════════════════════════════════════════════╣
 ║  Press Ctrl+C to stop                                          ║
 ╚════════════════════════════════════════════════════════════════╝
@@ -321,12 +396,146 @@ console.log(`
 // Track connected clients
 let clientCount = 0;
 
+// Subscription state per connected client
+const subscriptions = new Map<WebSocket, ClientSubscription>();
+
+// Clients that answered the last WebSocket ping (or connected since)
+const aliveClients = new Set<WebSocket>();
+
+/**
+ * Build the backfill for a client that last saw a reading at `since`,
+ * filtered by the client's subscription
+ */
+function createBackfill(
+  since: string,
+  client: ClientSubscription,
+): BackfillPayload {
+  // Rate-limit the replay on its own, without touching the live feed state
+  const replay: ClientSubscription = {
+    subscription: client.subscription,
+    lastSentByZone: new Map(),
+  };
+  const missed = liveReadings
+    .select(undefined, Date.parse(since) + 1, undefined)
+    .filter((reading) => shouldSend(replay, reading))
+    .map(({ time, intervalMs, ...reading }) =>
+      projectReading(reading, client.subscription.fields),
+    );
+
+  return {
+    since,
+    readings: missed.slice(-MAX_BACKFILL_READINGS),
+    truncated: missed.length > MAX_BACKFILL_READINGS,
+  };
+}
+
+/**
+ * Bring a client's alert list up to date with the recent incidents of its
+ * subscribed zones (only those not subscribed before, when given)
+ *
+ * Besides the monitor's incidents this includes the newest stored ones, so
+ * incidents interrupted by a restart (resolved when the log was loaded)
+ * reach clients that still show them as active.
+ */
+function sendRecentIncidents(
+  ws: WebSocket,
+  client: ClientSubscription,
+  previous?: ClientSubscription,
+): void {
+  const isNewZone = (zoneId: string) =>
+    isSubscribedZone(client, zoneId) &&
+    !(previous && isSubscribedZone(previous, zoneId));
+
+  const incidents = new Map<string, Anomaly>();
+  for (const incident of anomalyLog
+    .query({})
+    .filter((stored) => isNewZone(stored.zoneId))
+    .slice(0, RECENT_LOGGED_INCIDENTS)) {
+    incidents.set(incident.id, incident);
+  }
+  for (const incident of anomalyMonitor.recent()) {
+    if (isNewZone(incident.zoneId)) {
+      incidents.set(incident.id, anomalyLog.get(incident.id) ?? incident);
+    }
+  }
+
+  [...incidents.values()]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .forEach((incident) => ws.send(encodeServerMessage("anomaly", incident)));
+}
+
+/**
+ * Handle a parsed client message
+ */
+function handleClientMessage(
+  ws: WebSocket,
+  client: ClientSubscription,
+  message: ClientMessage,
+): void {
+  const zoneIds = ZONES.map((zone) => zone.id);
+
+  switch (message.type) {
+    case "resume": {
+      const backfill = createBackfill(message.since, client);
+      ws.send(encodeServerMessage("backfill", backfill));
+      console.log(
+        `⏪ Replayed ${backfill.readings.length} readings since ${message.since}`,
+      );
+      return;
+    }
+    case "subscribe":
+    case "unsubscribe": {
+      const previous = { ...client };
+      client.subscription =
+        message.type === "subscribe"
+          ? applySubscribe(client.subscription, message, zoneIds)
+          : applyUnsubscribe(client.subscription, message, zoneIds);
+      ws.send(encodeServerMessage("subscribed", client.subscription));
+      sendRecentIncidents(ws, client, previous);
+      return;
+    }
+    case "ping": {
+      ws.send(
+        encodeServerMessage("pong", {
+          sentAt: message.sentAt,
+          serverTime: new Date().toISOString(),
+        }),
+      );
+      return;
+    }
+  }
+}
+
 wss.on("connection", (ws: WebSocket) => {
   clientCount++;
   console.log(`✅ Client connected (total: ${clientCount})`);
 
+  const client = createClientSubscription();
+  subscriptions.set(ws, client);
+
+  sendRecentIncidents(ws, client);
+
+  aliveClients.add(ws);
+  ws.on("pong", () => aliveClients.add(ws));
+
+  ws.on("message", (data) => {
+    const message = parseClientMessage(data.toString());
+    if (!message) {
+      ws.send(
+        encodeServerMessage("error", {
+          code: "invalid-message",
+          message: "Unrecognised or malformed client message",
+        }),
+      );
+      return;
+    }
+    handleClientMessage(ws, client, message);
+  });
+
   ws.on("close", () => {
     clientCount--;
+    subscriptions.delete(ws);
+    aliveClients.delete(ws);
     console.log(`❌ Client disconnected (total: ${clientCount})`);
   });
 
@@ -335,10 +544,73 @@ wss.on("connection", (ws: WebSocket) => {
   });
 });
 
-// Broadcast data to all connected clients
+// Send a reading to each connected client, filtered by its subscription
 function broadcast(data: SensorReading): void {
-  const message = JSON.stringify(data);
+  subscriptions.forEach((client, ws) => {
+    if (ws.readyState === WebSocket.OPEN && shouldSend(client, data)) {
+      ws.send(
+        encodeServerMessage(
+          "reading",
+          projectReading(data, client.subscription.fields),
+        ),
+      );
+    }
+  });
+}
 
+/**
+ * Check whether an incident update goes to clients, recording it as sent
+ *
+ * Openings, severity changes and resolutions are sent at once. An incident
+ * extends on every offending reading, so duration and peak updates are sent
+ * at most every INCIDENT_UPDATE_INTERVAL_MS.
+ */
+function shouldBroadcastIncident(incident: Anomaly, now: number): boolean {
+  const last = broadcastIncidents.get(incident.id);
+  if (
+    last &&
+    !isSignificantChange(last.incident, incident) &&
+    now - last.sentAt < INCIDENT_UPDATE_INTERVAL_MS
+  ) {
+    return false;
+  }
+
+  if (incident.status === "resolved") {
+    broadcastIncidents.delete(incident.id);
+  } else {
+    broadcastIncidents.set(incident.id, { incident, sentAt: now });
+  }
+  return true;
+}
+
+// Send an incident to the clients subscribed to its zone
+function broadcastIncident(incident: Anomaly): void {
+  const message = encodeServerMessage("anomaly", incident);
+  subscriptions.forEach((client, ws) => {
+    if (
+      ws.readyState === WebSocket.OPEN &&
+      isSubscribedZone(client, incident.zoneId)
+    ) {
+      ws.send(message);
+    }
+  });
+}
+
+// Store and forward incidents that opened or changed, and broadcast them
+// (throttled, see shouldBroadcastIncident) with their stored triage
+function publishIncidents(incidents: Anomaly[]): void {
+  const now = Date.now();
+
+  for (const incident of incidents) {
+    const stored = anomalyLog.record(incident);
+    webhooks?.dispatch(incident);
+
+    if (shouldBroadcastIncident(stored, now)) broadcastIncident(stored);
+  }
+}
+
+// Send the same message to every connected client
+function sendToAll(message: string): void {
   wss.clients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
@@ -348,37 +620,95 @@ function broadcast(data: SensorReading): void {
 
 // Main broadcast loop
 setInterval(() => {
-  if (wss.clients.size === 0) {
-    return; // No clients connected, skip broadcast
+  const zone = ZONES[currentZoneIndex];
+  currentZoneIndex = (currentZoneIndex + 1) % ZONES.length;
+
+  // A dropped-out sensor leaves its slot in the rotation empty
+  if (isDroppedOut(zone)) {
+    return;
   }
 
-  const zone = ZONES[currentZoneIndex];
   const reading = generateSensorReading(zone);
 
   broadcast(reading);
+  readingLog.append(reading);
+  liveReadings.append(reading);
+  publishIncidents(anomalyMonitor.process(reading, zone));
 
-  // Log every 10th reading to avoid spam
-  if (Math.random() < 0.1) {
+  // Log every 10th reading to avoid spam (while anyone is watching)
+  if (wss.clients.size > 0 && Math.random() < 0.1) {
     console.log(
       `📊 [${reading.timestamp.slice(11, 19)}] ${reading.zoneName}: ${reading.energyKw} kW, ${reading.temperature}°C`,
     );
   }
-
-  // Rotate to next zone
-  currentZoneIndex = (currentZoneIndex + 1) % ZONES.length;
 }, BROADCAST_INTERVAL_MS);
 
+// Heartbeat so clients can tell a quiet feed from a dead connection, and
+// WebSocket pings so the server notices clients that vanished without closing
+setInterval(() => {
+  wss.clients.forEach((client) => {
+    if (!aliveClients.has(client)) {
+      console.log("💤 Dropping unresponsive client");
+      client.terminate();
+      return;
+    }
+    aliveClients.delete(client);
+    client.ping();
+  });
+
+  sendToAll(
+    encodeServerMessage("heartbeat", { serverTime: new Date().toISOString() }),
+  );
+}, HEARTBEAT_INTERVAL_MS);
+
+// Pick up zone config edits without a restart
+watchZonesConfig((zones) => {
+  // Removed zones never report again, so stop them going offline and close
+  // their incidents
+  const removed = ZONES.filter(
+    (zone) => !zones.some((updated) => updated.id === zone.id),
+  );
+  for (const zone of removed) {
+    publishIncidents(anomalyMonitor.forgetZone(zone.id));
+  }
+
+  ZONES = zones;
+  currentZoneIndex = 0;
+  console.log(`🔄 Zone config reloaded (${zones.length} zones)`);
+  sendToAll(encodeServerMessage("config-changed", { zones }));
+});
+
+// Raise sensor-offline incidents for zones that stopped reporting
+setInterval(() => {
+  publishIncidents(anomalyMonitor.checkOffline(Date.now()));
+}, OFFLINE_CHECK_INTERVAL_MS);
+
+// Drop live readings and incidents older than their retention periods
+// (disk and memory), and leave live readings past the memory window to the
+// archive
+setInterval(() => {
+  readingLog.prune();
+  liveReadings.removeBefore(readingLog.archiveOlder());
+  anomalyLog.prune();
+}, RETENTION_CHECK_INTERVAL_MS);
+
 // Handle graceful shutdown
 process.on("SIGINT", () => {
   console.log("\n\n🛑 Shutting down server...");
+  webhooks?.close();
   wss.close(() => {
-    console.log("Server closed.");
-    process.exit(0);
+    server.close(() => {
+      readingLog.close(() => {
+        console.log("Server closed.");
+        process.exit(0);
+      });
+    });
   });
 });
 
 process.on("SIGTERM", () => {
+  webhooks?.close();
   wss.close(() => {
-    process.exit(0);
+    server.close(() => readingLog.close(() => process.exit(0)));
   });
 });
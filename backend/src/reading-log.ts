@@ -0,0 +1,290 @@
+/**
+ * Append-only log of live readings
+ *
+ * Every reading the mock server broadcasts is appended as one JSON line to
+ * an hourly segment file (data/live/readings-YYYY-MM-DDTHH.ndjson, UTC).
+ * Segments older than the retention period are deleted, so live history
+ * survives restarts. Only the segments of the memory window are read back
+ * into memory; older ones form the archive, read one segment at a time when
+ * a query reaches back that far.
+ *
+ * Configuration:
+ *   LIVE_DATA_DIR           Segment directory (default ../data/live)
+ *   LIVE_RETENTION_HOURS    Hours of live data to keep (default 24)
+ *   LIVE_MEMORY_HOURS       Hours of live data to keep in memory (default 1,
+ *                           rounded out to whole segments)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ReadingArchive } from "./historical-store";
+import type { SensorReading } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReadingLog {
+  load(): SensorReading[]; // Readings of the memory window
+  append(reading: SensorReading): void;
+  prune(now?: number): string[]; // Returns the deleted segment names
+  // Move segments that left the memory window to the archive; returns the
+  // time before which readings no longer need to be in memory
+  archiveOlder(now?: number): number;
+  archive: ReadingArchive; // Retained segments before the memory window
+  retentionMs: number;
+  close(callback?: () => void): void;
+}
+
+interface SegmentStats {
+  count: number;
+  first: SensorReading | undefined;
+  last: SensorReading | undefined;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// npm scripts run from backend/, so the data directory is one level up
+export const DEFAULT_LIVE_DATA_DIR = path.resolve(
+  process.cwd(),
+  "../data/live",
+);
+
+const DEFAULT_RETENTION_HOURS = 24;
+
+const DEFAULT_MEMORY_HOURS = 1;
+
+const SEGMENT_MS = 60 * 60 * 1000;
+
+const SEGMENT_PATTERN = /^readings-(\d{4}-\d{2}-\d{2}T\d{2})\.ndjson$/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Segment key for a time, e.g. "2026-01-19T14" (UTC hour)
+ */
+function segmentKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 13);
+}
+
+function segmentName(key: string): string {
+  return `readings-${key}.ndjson`;
+}
+
+/**
+ * Start time of a segment from its key
+ */
+function segmentStart(key: string): number {
+  return Date.parse(`${key}:00:00.000Z`);
+}
+
+function parseHours(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    console.warn(`⚠️  Ignoring invalid ${name} "${value}" (using ${fallback})`);
+    return fallback;
+  }
+  return hours;
+}
+
+// ============================================================================
+// Reading Log
+// ============================================================================
+
+/**
+ * Open (and create if needed) the live reading log
+ */
+export function openReadingLog(
+  dir: string = process.env.LIVE_DATA_DIR ?? DEFAULT_LIVE_DATA_DIR,
+  retentionHours: number = parseHours(
+    "LIVE_RETENTION_HOURS",
+    DEFAULT_RETENTION_HOURS,
+  ),
+  memoryHours: number = parseHours("LIVE_MEMORY_HOURS", DEFAULT_MEMORY_HOURS),
+): ReadingLog {
+  const retentionMs = retentionHours * SEGMENT_MS;
+  const memoryMs = memoryHours * SEGMENT_MS;
+  let stream: fs.WriteStream | null = null;
+  let streamKey: string | null = null;
+
+  // First segment of the memory window; the archive is everything before it
+  let memoryKey = segmentKey(Date.now() - memoryMs);
+  const archiveStats = new Map<string, SegmentStats>(); // Segments don't change once archived
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  function listSegments(): string[] {
+    return fs
+      .readdirSync(dir)
+      .map((name) => SEGMENT_PATTERN.exec(name)?.[1])
+      .filter((key): key is string => key !== undefined)
+      .sort();
+  }
+
+  /**
+   * Delete segments that end before the retention cutoff
+   */
+  function prune(now: number = Date.now()): string[] {
+    const cutoff = now - retentionMs;
+    const expired = listSegments().filter(
+      (key) => segmentStart(key) + SEGMENT_MS <= cutoff && key !== streamKey,
+    );
+
+    for (const key of expired) {
+      fs.unlinkSync(path.join(dir, segmentName(key)));
+      archiveStats.delete(key);
+    }
+    return expired.map(segmentName);
+  }
+
+  /**
+   * Read one segment, sorted by time
+   *
+   * A line cut short by a crash is skipped rather than failing the read.
+   */
+  function readSegment(key: string): SensorReading[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(dir, segmentName(key)), "utf-8");
+    } catch {
+      return []; // Pruned since it was listed
+    }
+
+    const readings: SensorReading[] = [];
+    let skipped = 0;
+    for (const line of content.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        readings.push(JSON.parse(line));
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(
+        `⚠️  Skipped ${skipped} malformed live reading line(s) in ${segmentName(key)}`,
+      );
+    }
+    return readings.sort(
+      (a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp),
+    );
+  }
+
+  /**
+   * Read the segments of the memory window (oldest first)
+   */
+  function load(): SensorReading[] {
+    prune();
+    return listSegments()
+      .filter((key) => key >= memoryKey)
+      .flatMap(readSegment);
+  }
+
+  function archiveOlder(now: number = Date.now()): number {
+    const key = segmentKey(now - memoryMs);
+    if (key > memoryKey) memoryKey = key;
+    return Math.max(segmentStart(memoryKey), now - retentionMs);
+  }
+
+  function archivedSegments(): string[] {
+    return listSegments().filter((key) => key < memoryKey);
+  }
+
+  /**
+   * Read archived readings in [from, to), one segment at a time
+   */
+  function* read(
+    from: number | undefined,
+    to: number | undefined,
+  ): Generator<SensorReading> {
+    for (const key of archivedSegments()) {
+      const start = segmentStart(key);
+      if (to !== undefined && start >= to) return;
+      if (from !== undefined && start + SEGMENT_MS <= from) continue;
+
+      for (const reading of readSegment(key)) {
+        const time = Date.parse(reading.timestamp);
+        if (from !== undefined && time < from) continue;
+        if (to !== undefined && time >= to) break;
+        yield reading;
+      }
+    }
+  }
+
+  /**
+   * Count and bounds of the archive (each segment is read once for its stats)
+   */
+  function stats(): SegmentStats {
+    const total: SegmentStats = {
+      count: 0,
+      first: undefined,
+      last: undefined,
+    };
+
+    for (const key of archivedSegments()) {
+      let segment = archiveStats.get(key);
+      if (!segment) {
+        const readings = readSegment(key);
+        segment = {
+          count: readings.length,
+          first: readings[0],
+          last: readings[readings.length - 1],
+        };
+        archiveStats.set(key, segment);
+      }
+
+      total.count += segment.count;
+      total.first ??= segment.first;
+      total.last = segment.last ?? total.last;
+    }
+    return total;
+  }
+
+  function append(reading: SensorReading): void {
+    const key = segmentKey(Date.parse(reading.timestamp));
+
+    // Roll over to a new segment at the top of each hour
+    if (key !== streamKey) {
+      stream?.end();
+      stream = fs.createWriteStream(path.join(dir, segmentName(key)), {
+        flags: "a",
+      });
+      stream.on("error", (error) => {
+        console.error(`⚠️  Reading log error: ${error.message}`);
+      });
+      streamKey = key;
+    }
+
+    stream!.write(`${JSON.stringify(reading)}\n`);
+  }
+
+  function close(callback?: () => void): void {
+    if (!stream) {
+      callback?.();
+      return;
+    }
+    stream.end(callback);
+    stream = null;
+    streamKey = null;
+  }
+
+  return {
+    load,
+    append,
+    prune,
+    archiveOlder,
+    archive: { read, stats },
+    retentionMs,
+    close,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Per-client reading subscriptions
+ *
+ * Tracks which zones, fields and rate each WebSocket connection asked for
+ * (see shared/protocol.ts) and decides what each reading looks like for a
+ * given client, so a single-zone wall display or a lightweight client only
+ * receives what it needs.
+ */
+
+import {
+  DEFAULT_SUBSCRIPTION,
+  type ReadingField,
+  type ReadingPayload,
+  type SubscribeMessage,
+  type Subscription,
+  type UnsubscribeMessage,
+} from "../../shared/protocol";
+import type { SensorReading } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ClientSubscription {
+  subscription: Subscription;
+  lastSentByZone: Map<string, number>; // Reading time last sent per zone (ms)
+}
+
+// ============================================================================
+// Subscription Changes
+// ============================================================================
+
+export function createClientSubscription(): ClientSubscription {
+  return {
+    subscription: { ...DEFAULT_SUBSCRIPTION },
+    lastSentByZone: new Map(),
+  };
+}
+
+/**
+ * Apply a subscribe request
+ *
+ * Unknown zone IDs are dropped. Naming zones while subscribed to all of them
+ * narrows the feed to the named zones; otherwise they are added.
+ */
+export function applySubscribe(
+  current: Subscription,
+  request: SubscribeMessage,
+  knownZoneIds: string[],
+): Subscription {
+  let zones = current.zones;
+
+  if (request.zones === "*") {
+    zones = "*";
+  } else if (request.zones) {
+    const requested = request.zones.filter((id) => knownZoneIds.includes(id));
+    zones =
+      current.zones === "*"
+        ? requested
+        : [...new Set([...current.zones, ...requested])];
+  }
+
+  return {
+    zones,
+    fields: request.fields ?? current.fields,
+    intervalMs: request.intervalMs ?? current.intervalMs,
+  };
+}
+
+/**
+ * Apply an unsubscribe request (all zones expand to the configured list)
+ */
+export function applyUnsubscribe(
+  current: Subscription,
+  request: UnsubscribeMessage,
+  knownZoneIds: string[],
+): Subscription {
+  const zones = current.zones === "*" ? knownZoneIds : current.zones;
+  return {
+    ...current,
+    zones: zones.filter((id) => !request.zones.includes(id)),
+  };
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+/**
+ * Check whether a client is subscribed to a zone (its readings and anomalies)
+ */
+export function isSubscribedZone(
+  client: ClientSubscription,
+  zoneId: string,
+): boolean {
+  const { zones } = client.subscription;
+  return zones === "*" || zones.includes(zoneId);
+}
+
+/**
+ * Check whether a client should receive a reading, recording it as sent
+ *
+ * Readings for zones outside the subscription are skipped, and readings
+ * arriving sooner than intervalMs after the last one sent for the same
+ * zone are dropped.
+ */
+export function shouldSend(
+  client: ClientSubscription,
+  reading: SensorReading,
+): boolean {
+  if (!isSubscribedZone(client, reading.zoneId)) {
+    return false;
+  }
+
+  const time = Date.parse(reading.timestamp);
+  const lastSent = client.lastSentByZone.get(reading.zoneId);
+  if (
+    lastSent !== undefined &&
+    time - lastSent < client.subscription.intervalMs
+  ) {
+    return false;
+  }
+
+  client.lastSentByZone.set(reading.zoneId, time);
+  return true;
+}
+
+/**
+ * Limit a reading to the subscribed fields (timestamp and zoneId always kept)
+ */
+export function projectReading(
+  reading: SensorReading,
+  fields: ReadingField[] | "*",
+): ReadingPayload {
+  if (fields === "*") {
+    return reading;
+  }
+
+  const projected: ReadingPayload = {
+    timestamp: reading.timestamp,
+    zoneId: reading.zoneId,
+  };
+  for (const field of fields) {
+    Object.assign(projected, { [field]: reading[field] });
+  }
+  return projected;
+}
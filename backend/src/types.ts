@@ -0,0 +1,20 @@
+/**
+ * Shared backend types
+ */
+
+// Sensor reading as broadcast over WebSocket and stored in historical data
+export type { SensorReading } from "../../shared/protocol";
+
+// Time-bucketed statistics for one zone
+export interface ReadingAggregate {
+  zoneId: string;
+  zoneName: string;
+  start: string; // Bucket start (or first reading for whole-window aggregates)
+  end: string; // Bucket end, exclusive (or last reading)
+  avgKw: number;
+  minKw: number;
+  maxKw: number;
+  avgTemperature: number;
+  count: number;
+  totalKwh: number; // Energy integrated over each reading's sample interval
+}
@@ -0,0 +1,134 @@
+/**
+ * Local webhook receiver for testing the webhook dispatcher
+ *
+ * Accepts POSTs on any path, verifies the signature when a secret is set and
+ * logs each anomaly. Can fail a share of requests with 503 to exercise the
+ * dispatcher's retries.
+ *
+ * Configuration:
+ *   WEBHOOK_RECEIVER_PORT   Port to listen on (default 9090)
+ *   WEBHOOK_SECRET          Expected signing secret (optional)
+ *   WEBHOOK_FAIL_RATE       Share of requests to fail, 0-1 (default 0)
+ *
+ * Usage:
+ *   npm run webhook-receiver
+ *   WEBHOOK_URL=http://localhost:9090/webhook npm run dev
+ */
+
+import * as crypto from "crypto";
+import * as http from "http";
+import { isAnomaly } from "../../shared/protocol";
+import { signWebhookBody, type WebhookPayload } from "./webhooks";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PORT = Number(process.env.WEBHOOK_RECEIVER_PORT ?? 9090);
+const SECRET = process.env.WEBHOOK_SECRET || undefined;
+const FAIL_RATE = Number(process.env.WEBHOOK_FAIL_RATE ?? 0);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isValidSignature(
+  body: string,
+  signature: string | undefined,
+): boolean {
+  if (!SECRET) return true;
+  if (!signature) return false;
+
+  const expected = Buffer.from(signWebhookBody(body, SECRET));
+  const actual = Buffer.from(signature);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+// Checks the fields that are logged, so a malformed body is answered with
+// 400 instead of crashing the receiver
+function isWebhookPayload(value: unknown): value is WebhookPayload {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as WebhookPayload).event === "string" &&
+    isAnomaly((value as WebhookPayload).anomaly)
+  );
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+let received = 0;
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST") {
+    reply(res, 405, { error: `Method ${req.method} not allowed` });
+    return;
+  }
+
+  let body = "";
+  req.setEncoding("utf-8");
+  req.on("data", (chunk: string) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    if (Math.random() < FAIL_RATE) {
+      console.log("💥 Simulating failure (503)");
+      reply(res, 503, { error: "Simulated failure" });
+      return;
+    }
+
+    const signature = req.headers["x-signature"];
+    if (
+      !isValidSignature(
+        body,
+        Array.isArray(signature) ? signature[0] : signature,
+      )
+    ) {
+      console.log("🚫 Rejected request with a missing or invalid signature");
+      reply(res, 401, { error: "Invalid signature" });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      reply(res, 400, { error: "Body must be JSON" });
+      return;
+    }
+    if (!isWebhookPayload(payload)) {
+      console.log("🚫 Rejected request without a valid anomaly payload");
+      reply(res, 400, {
+        error: "Body must be a webhook payload with an anomaly",
+      });
+      return;
+    }
+
+    received++;
+    const { anomaly } = payload;
+    console.log(
+      `📨 #${received} ${payload.event} · ${anomaly.zoneName} · ${anomaly.type} · ${anomaly.severity} · value ${anomaly.value} (threshold ${anomaly.threshold}) at ${anomaly.timestamp}`,
+    );
+    reply(res, 200, { received: true });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${PORT}`);
+  if (SECRET) console.log("   Verifying signatures with WEBHOOK_SECRET");
+  if (FAIL_RATE > 0) console.log(`   Failing ${FAIL_RATE * 100}% of requests`);
+});
+
+process.on("SIGINT", () => {
+  server.close(() => process.exit(0));
+});
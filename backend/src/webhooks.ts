@@ -0,0 +1,258 @@
+/**
+ * Webhook dispatcher for critical anomalies
+ *
+ * Posts critical anomaly incidents as JSON to an external endpoint (e.g. a
+ * maintenance ticketing system), once per incident when it first becomes
+ * critical:
+ *
+ *   { "event": "anomaly.critical", "sentAt": "<ISO>", "anomaly": { ... } }
+ *
+ * Deliveries that fail with a network error, timeout, 429 or 5xx are retried
+ * with exponential backoff; other 4xx responses are dropped as they will not
+ * succeed on retry. The same zone and anomaly type is sent at most once per
+ * cooldown, so a recurring fault opens one ticket rather than dozens. With a
+ * secret configured, each request is signed with HMAC-SHA256 of the body in
+ * the X-Signature header ("sha256=<hex>").
+ *
+ * Configuration:
+ *   WEBHOOK_URL             Endpoint to post to (dispatcher disabled if unset)
+ *   WEBHOOK_SECRET          Signing secret (optional)
+ *   WEBHOOK_COOLDOWN_MS     Minimum time between events for a zone and type
+ *                           (default 300000)
+ *
+ * See webhook-receiver.ts for a local endpoint to test against.
+ */
+
+import * as crypto from "crypto";
+import * as http from "http";
+import * as https from "https";
+import type { Anomaly } from "../../shared/anomalies";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WebhookOptions {
+  url: string;
+  secret?: string;
+  cooldownMs: number;
+  maxAttempts: number;
+  initialDelayMs: number; // Delay before the first retry, doubling after
+  timeoutMs: number;
+}
+
+export interface WebhookPayload {
+  event: "anomaly.critical";
+  sentAt: string;
+  anomaly: Anomaly;
+}
+
+export interface WebhookDispatcher {
+  dispatch(anomaly: Anomaly): void;
+  close(): void; // Cancel pending retries
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_WEBHOOK_OPTIONS = {
+  cooldownMs: 5 * 60 * 1000,
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  timeoutMs: 5000,
+};
+
+// Incident ids remembered as sent (oldest forgotten first)
+const MAX_SENT_INCIDENTS = 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+class RetryableError extends Error {}
+
+/**
+ * Sign a request body with HMAC-SHA256
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * POST a JSON body, resolving on 2xx and rejecting otherwise
+ * (RetryableError for failures worth retrying)
+ */
+function postJson(
+  url: URL,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<void> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          ...headers,
+        },
+        timeout: timeoutMs,
+      },
+      (res) => {
+        res.resume(); // Discard the response body
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve();
+        } else if (status === 429 || status >= 500) {
+          reject(new RetryableError(`HTTP ${status}`));
+        } else {
+          reject(new Error(`HTTP ${status}`));
+        }
+      },
+    );
+
+    req.on("timeout", () => {
+      req.destroy(new RetryableError(`Timed out after ${timeoutMs}ms`));
+    });
+    req.on("error", (error) =>
+      reject(
+        error instanceof RetryableError
+          ? error
+          : new RetryableError(error.message),
+      ),
+    );
+    req.end(body);
+  });
+}
+
+function parseCooldown(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_WEBHOOK_OPTIONS.cooldownMs;
+  }
+
+  const cooldownMs = Number(value);
+  if (!Number.isFinite(cooldownMs) || cooldownMs < 0) {
+    console.warn(
+      `⚠️  Ignoring invalid WEBHOOK_COOLDOWN_MS "${value}" (using ${DEFAULT_WEBHOOK_OPTIONS.cooldownMs})`,
+    );
+    return DEFAULT_WEBHOOK_OPTIONS.cooldownMs;
+  }
+  return cooldownMs;
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/**
+ * Create a webhook dispatcher
+ *
+ * Dispatch is called with every incident update; only the first critical
+ * version of each incident is sent.
+ */
+export function createWebhookDispatcher(
+  options: Partial<WebhookOptions> & { url: string },
+): WebhookDispatcher {
+  const { url, secret, cooldownMs, maxAttempts, initialDelayMs, timeoutMs } = {
+    ...DEFAULT_WEBHOOK_OPTIONS,
+    ...options,
+  };
+  const endpoint = new URL(url);
+  const lastSent = new Map<string, number>(); // `${zoneId}:${type}` → time
+  const retryTimers = new Set<NodeJS.Timeout>();
+  const sentIncidents = new Set<string>();
+
+  async function deliver(anomaly: Anomaly, attempt: number): Promise<void> {
+    const payload: WebhookPayload = {
+      event: "anomaly.critical",
+      sentAt: new Date().toISOString(),
+      anomaly,
+    };
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = secret
+      ? { "X-Signature": signWebhookBody(body, secret) }
+      : {};
+
+    try {
+      await postJson(endpoint, body, headers, timeoutMs);
+      console.log(
+        `🔔 WEBHOOK: Sent ${anomaly.type} for ${anomaly.zoneName} (attempt ${attempt})`,
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!(error instanceof RetryableError) || attempt >= maxAttempts) {
+        console.error(
+          `⚠️  WEBHOOK: Giving up on ${anomaly.type} for ${anomaly.zoneName} after ${attempt} attempt(s): ${message}`,
+        );
+        return;
+      }
+
+      const delayMs = initialDelayMs * 2 ** (attempt - 1);
+      console.warn(
+        `⚠️  WEBHOOK: Attempt ${attempt} failed (${message}), retrying in ${delayMs}ms`,
+      );
+      const timer = setTimeout(() => {
+        retryTimers.delete(timer);
+        void deliver(anomaly, attempt + 1);
+      }, delayMs);
+      retryTimers.add(timer);
+    }
+  }
+
+  function dispatch(anomaly: Anomaly): void {
+    if (anomaly.severity !== "critical" || sentIncidents.has(anomaly.id)) {
+      return;
+    }
+
+    sentIncidents.add(anomaly.id);
+    if (sentIncidents.size > MAX_SENT_INCIDENTS) {
+      sentIncidents.delete(sentIncidents.values().next().value!);
+    }
+
+    const key = `${anomaly.zoneId}:${anomaly.type}`;
+    const now = Date.now();
+    const previous = lastSent.get(key);
+    if (previous !== undefined && now - previous < cooldownMs) return;
+
+    lastSent.set(key, now);
+    void deliver(anomaly, 1);
+  }
+
+  function close(): void {
+    for (const timer of retryTimers) {
+      clearTimeout(timer);
+    }
+    retryTimers.clear();
+  }
+
+  return { dispatch, close };
+}
+
+/**
+ * Create the dispatcher configured by the environment, or null if
+ * WEBHOOK_URL is not set
+ */
+export function createWebhookDispatcherFromEnv(): WebhookDispatcher | null {
+  const url = process.env.WEBHOOK_URL;
+  if (!url) {
+    return null;
+  }
+
+  try {
+    new URL(url);
+  } catch {
+    console.warn(`⚠️  Ignoring invalid WEBHOOK_URL "${url}"`);
+    return null;
+  }
+
+  return createWebhookDispatcher({
+    url,
+    secret: process.env.WEBHOOK_SECRET || undefined,
+    cooldownMs: parseCooldown(process.env.WEBHOOK_COOLDOWN_MS),
+  });
+}
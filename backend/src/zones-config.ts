@@ -0,0 +1,79 @@
+/**
+ * Zone configuration loader for the backend
+ *
+ * Reads data/zones-config.json (shared with the frontend) and validates it
+ * with the shared parser. Set ZONES_CONFIG_PATH to load a different file.
+ * The mock server also watches the file and picks up valid edits at runtime.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseZonesConfig, type ZoneConfig } from "../../shared/zones";
+
+export type { ZoneConfig };
+
+// npm scripts run from backend/, so the data directory is one level up
+export const DEFAULT_ZONES_CONFIG_PATH = path.resolve(
+  process.cwd(),
+  "../data/zones-config.json",
+);
+
+const ZONES_CONFIG_PATH =
+  process.env.ZONES_CONFIG_PATH ?? DEFAULT_ZONES_CONFIG_PATH;
+
+// How often the watched config file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Read and validate the zone configuration (throws on failure)
+ */
+export function readZonesConfig(
+  configPath: string = ZONES_CONFIG_PATH,
+): ZoneConfig[] {
+  const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  return parseZonesConfig(raw);
+}
+
+/**
+ * Load and validate the zone configuration, exiting on failure
+ */
+export function loadZonesConfig(
+  configPath: string = ZONES_CONFIG_PATH,
+): ZoneConfig[] {
+  try {
+    return readZonesConfig(configPath);
+  } catch (error) {
+    console.error(`❌ Failed to load zone config from ${configPath}`);
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Call onChange with the new zones whenever the config file changes
+ *
+ * Invalid edits are logged and ignored, keeping the previous config.
+ */
+export function watchZonesConfig(
+  onChange: (zones: ZoneConfig[]) => void,
+  configPath: string = ZONES_CONFIG_PATH,
+): void {
+  fs.watchFile(
+    configPath,
+    { interval: WATCH_INTERVAL_MS },
+    (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+
+      try {
+        onChange(readZonesConfig(configPath));
+      } catch (error) {
+        console.error(
+          `❌ Ignoring invalid zone config change in ${configPath}`,
+        );
+        console.error(error instanceof Error ? error.message : error);
+      }
+    },
+  );
+}
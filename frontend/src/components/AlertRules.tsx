@@ -0,0 +1,439 @@
+import { useState } from 'react';
+import type { AnomalySeverity } from '../types';
+import { useEnergy } from '../context/EnergyContext';
+import {
+  RULE_METRICS,
+  describeRule,
+  validateRule,
+  type AlertRule,
+  type RuleMetric,
+  type RuleOperator,
+} from '../utils/alertRules';
+import { testRuleAgainstHistory, type RuleTestResult } from '../utils/ruleEngine';
+import { getDataRange, loadRawReadings } from '../utils/historicalData';
+import { formatAnomalyValue, formatDuration } from '../utils/anomalyDisplay';
+import './AlertRules.css';
+
+// Incidents listed per test result
+const MAX_LISTED_INCIDENTS = 5;
+
+// Windows (ending at the newest historical reading) a test can run over;
+// tests use raw readings, so longer windows would be slow to load
+const TEST_WINDOWS = [
+  { hours: 1, label: 'Last hour' },
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+];
+
+// Rule editor form state (inputs are kept as typed, converted on save)
+interface ConditionDraft {
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: string;
+}
+
+interface RuleDraft {
+  id: string | null; // null for a new rule
+  enabled: boolean;
+  name: string;
+  zoneId: string; // '' for all zones
+  conditions: ConditionDraft[];
+  durationSec: string;
+  timeStart: string; // '' for all day
+  timeEnd: string;
+  severity: AnomalySeverity;
+  hysteresisPct: string;
+}
+
+const NEW_CONDITION: ConditionDraft = { metric: 'energy', operator: '>', value: '' };
+
+const EMPTY_DRAFT: RuleDraft = {
+  id: null,
+  enabled: false,
+  name: '',
+  zoneId: '',
+  conditions: [NEW_CONDITION],
+  durationSec: '0',
+  timeStart: '',
+  timeEnd: '',
+  severity: 'warning',
+  hysteresisPct: '5',
+};
+
+function toDraft(rule: AlertRule): RuleDraft {
+  return {
+    id: rule.id,
+    enabled: rule.enabled,
+    name: rule.name,
+    zoneId: rule.zoneId ?? '',
+    conditions: rule.conditions.map(c => ({ ...c, value: String(c.value) })),
+    durationSec: String(rule.durationMs / 1000),
+    timeStart: rule.timeOfDay ? String(rule.timeOfDay.start) : '',
+    timeEnd: rule.timeOfDay ? String(rule.timeOfDay.end) : '',
+    severity: rule.severity,
+    hysteresisPct: String(rule.hysteresis * 100),
+  };
+}
+
+// Empty inputs become NaN so validateRule reports them
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+function fromDraft(draft: RuleDraft, id: string): AlertRule {
+  const allDay = draft.timeStart === '' && draft.timeEnd === '';
+  return {
+    id,
+    name: draft.name.trim(),
+    enabled: draft.enabled,
+    zoneId: draft.zoneId || null,
+    conditions: draft.conditions.map(c => ({ ...c, value: toNumber(c.value) })),
+    durationMs: toNumber(draft.durationSec) * 1000,
+    timeOfDay: allDay ? null : { start: toNumber(draft.timeStart), end: toNumber(draft.timeEnd) },
+    severity: draft.severity,
+    hysteresis: toNumber(draft.hysteresisPct) / 100,
+  };
+}
+
+function TestResult({ result }: { result: RuleTestResult }) {
+  const { incidents, readingsChecked, truncated } = result;
+
+  return (
+    <div className="rule-test-result">
+      <p>
+        {incidents.length}{truncated ? '+' : ''} incident{incidents.length === 1 ? '' : 's'} in{' '}
+        {readingsChecked.toLocaleString()} raw readings
+        {truncated && ' (stopped early, the rule fires too often)'}
+      </p>
+      {incidents.length > 0 && (
+        <ul>
+          {incidents.slice(0, MAX_LISTED_INCIDENTS).map(incident => (
+            <li key={incident.id}>
+              {incident.zoneName} · {new Date(incident.startTime).toLocaleString()} ·{' '}
+              {formatDuration(incident.durationMs)} · peak {formatAnomalyValue(incident, incident.peakValue)}
+            </li>
+          ))}
+          {incidents.length > MAX_LISTED_INCIDENTS && (
+            <li>…and {incidents.length - MAX_LISTED_INCIDENTS} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AlertRules Component
+ *
+ * Settings panel for user-defined alert rules: create, edit, enable/disable
+ * and delete rules, and test a rule (saved or in the editor) against the raw
+ * readings of a recent window of the historical data before enabling it.
+ * The historical data loaded for the dashboard is 1-minute averages, which
+ * would hide short spikes and flatten rates of change, so each test loads
+ * its window afresh.
+ */
+export function AlertRules() {
+  const {
+    zones,
+    historicalReadings,
+    historicalLoading,
+    alertRules,
+    saveAlertRule,
+    removeAlertRule,
+    setAlertRuleEnabled,
+  } = useEnergy();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [draftErrors, setDraftErrors] = useState<string[]>([]);
+  const [testResults, setTestResults] = useState(new Map<string, RuleTestResult>());
+  const [testWindowHours, setTestWindowHours] = useState(TEST_WINDOWS[0].hours);
+  const [testing, setTesting] = useState<string | null>(null); // Key of the running test
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const dataRange = getDataRange(historicalReadings);
+  const canTest = !historicalLoading && dataRange !== null && testing === null;
+
+  const runTest = (key: string, rule: AlertRule) => {
+    if (!dataRange) return;
+
+    setTesting(key);
+    setTestError(null);
+    loadRawReadings({
+      zoneIds: rule.zoneId ? [rule.zoneId] : undefined,
+      from: new Date(dataRange.end.getTime() - testWindowHours * 60 * 60 * 1000),
+      to: new Date(dataRange.end.getTime() + 1), // Include the newest reading
+    })
+      .then(readings => {
+        const result = testRuleAgainstHistory(rule, readings);
+        setTestResults(prev => new Map(prev).set(key, result));
+      })
+      .catch(err => {
+        setTestError('Failed to load readings for the test');
+        console.error('Error loading readings for rule test:', err);
+      })
+      .finally(() => setTesting(null));
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      conditions: prev.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  // Validate the editor contents, returning the rule if valid
+  const checkDraft = (): AlertRule | null => {
+    if (!draft) return null;
+    const rule = fromDraft(draft, draft.id ?? `rule-${Date.now().toString(36)}`);
+    const errors = validateRule(rule);
+    setDraftErrors(errors);
+    return errors.length === 0 ? rule : null;
+  };
+
+  const handleSave = () => {
+    const rule = checkDraft();
+    if (!rule) return;
+    saveAlertRule(rule);
+    setTestResults(prev => {
+      const updated = new Map(prev);
+      updated.delete(rule.id);
+      return updated;
+    });
+    setDraft(null);
+  };
+
+  const handleTestDraft = () => {
+    const rule = checkDraft();
+    if (rule) runTest('draft', rule);
+  };
+
+  const openEditor = (next: RuleDraft) => {
+    setDraft(next);
+    setDraftErrors([]);
+    setTestResults(prev => {
+      const updated = new Map(prev);
+      updated.delete('draft');
+      return updated;
+    });
+  };
+
+  return (
+    <div className="alert-rules">
+      <div className="alert-rules-header">
+        <div>
+          <h2>Alert Rules</h2>
+          <p className="description">
+            Custom rules run on the live feed alongside the built-in detectors. New rules start disabled, so test
+            them against the historical data first.
+          </p>
+          <label className="rule-test-window">
+            Test over{' '}
+            <select value={testWindowHours} onChange={e => setTestWindowHours(Number(e.target.value))}>
+              {TEST_WINDOWS.map(({ hours, label }) => (
+                <option key={hours} value={hours}>{label}</option>
+              ))}
+            </select>
+          </label>
+          {testError && <p className="error">{testError}</p>}
+        </div>
+        {!draft && (
+          <button type="button" className="rule-btn primary" onClick={() => openEditor(EMPTY_DRAFT)}>
+            New rule
+          </button>
+        )}
+      </div>
+
+      {alertRules.length === 0 ? (
+        <div className="no-data">No alert rules yet.</div>
+      ) : (
+        <table className="rules-table">
+          <thead>
+            <tr>
+              <th>On</th>
+              <th>Name</th>
+              <th>Zone</th>
+              <th>Conditions</th>
+              <th>Severity</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {alertRules.map(rule => (
+              <tr key={rule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    aria-label={`Enable ${rule.name}`}
+                    onChange={e => setAlertRuleEnabled(rule.id, e.target.checked)}
+                  />
+                </td>
+                <td>{rule.name}</td>
+                <td>{rule.zoneId ? zones.get(rule.zoneId)?.name ?? rule.zoneId : 'All zones'}</td>
+                <td>
+                  {describeRule(rule)}
+                  {testResults.has(rule.id) && <TestResult result={testResults.get(rule.id)!} />}
+                </td>
+                <td className={`rule-severity ${rule.severity}`}>{rule.severity}</td>
+                <td className="rule-actions">
+                  <button type="button" className="rule-btn" disabled={!canTest} onClick={() => runTest(rule.id, rule)}>
+                    {testing === rule.id ? 'Testing…' : 'Test'}
+                  </button>
+                  <button type="button" className="rule-btn" onClick={() => openEditor(toDraft(rule))}>
+                    Edit
+                  </button>
+                  <button type="button" className="rule-btn danger" onClick={() => removeAlertRule(rule.id)}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Rule editor */}
+      {draft && (
+        <div className="rule-editor">
+          <h3>{draft.id ? 'Edit rule' : 'New rule'}</h3>
+
+          <div className="rule-fields">
+            <label>
+              Name
+              <input type="text" value={draft.name} onChange={e => updateDraft({ name: e.target.value })} />
+            </label>
+            <label>
+              Zone
+              <select value={draft.zoneId} onChange={e => updateDraft({ zoneId: e.target.value })}>
+                <option value="">All zones</option>
+                {Array.from(zones.values()).map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.name}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Severity
+              <select
+                value={draft.severity}
+                onChange={e => updateDraft({ severity: e.target.value as AnomalySeverity })}
+              >
+                <option value="warning">Warning</option>
+                <option value="critical">Critical</option>
+              </select>
+            </label>
+            <label>
+              For (seconds)
+              <input
+                type="number"
+                min="0"
+                value={draft.durationSec}
+                onChange={e => updateDraft({ durationSec: e.target.value })}
+              />
+            </label>
+            <label>
+              Hysteresis (%)
+              <input
+                type="number"
+                min="0"
+                max="99"
+                value={draft.hysteresisPct}
+                onChange={e => updateDraft({ hysteresisPct: e.target.value })}
+              />
+            </label>
+            <label>
+              From hour
+              <input
+                type="number"
+                min="0"
+                max="24"
+                placeholder="All day"
+                value={draft.timeStart}
+                onChange={e => updateDraft({ timeStart: e.target.value })}
+              />
+            </label>
+            <label>
+              To hour
+              <input
+                type="number"
+                min="0"
+                max="24"
+                placeholder="All day"
+                value={draft.timeEnd}
+                onChange={e => updateDraft({ timeEnd: e.target.value })}
+              />
+            </label>
+          </div>
+
+          {/* All conditions must hold */}
+          <div className="rule-conditions">
+            {draft.conditions.map((condition, index) => (
+              <div key={index} className="rule-condition">
+                {index > 0 && <span className="rule-and">and</span>}
+                <select
+                  value={condition.metric}
+                  onChange={e => updateCondition(index, { metric: e.target.value as RuleMetric })}
+                >
+                  {RULE_METRICS.map(({ metric, label }) => (
+                    <option key={metric} value={metric}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={condition.operator}
+                  onChange={e => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                >
+                  <option value=">">&gt;</option>
+                  <option value="<">&lt;</option>
+                </select>
+                <input
+                  type="number"
+                  value={condition.value}
+                  onChange={e => updateCondition(index, { value: e.target.value })}
+                />
+                <span>{RULE_METRICS.find(m => m.metric === condition.metric)!.unit}</span>
+                {draft.conditions.length > 1 && (
+                  <button
+                    type="button"
+                    className="rule-btn"
+                    onClick={() => updateDraft({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              className="rule-btn"
+              onClick={() => updateDraft({ conditions: [...draft.conditions, NEW_CONDITION] })}
+            >
+              Add condition
+            </button>
+          </div>
+
+          {draftErrors.length > 0 && (
+            <ul className="error">
+              {draftErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          {testResults.has('draft') && <TestResult result={testResults.get('draft')!} />}
+
+          <div className="rule-editor-actions">
+            <button type="button" className="rule-btn" disabled={!canTest} onClick={handleTestDraft}>
+              {testing === 'draft' ? 'Testing…' : 'Test against history'}
+            </button>
+            <button type="button" className="rule-btn primary" onClick={handleSave}>
+              Save
+            </button>
+            <button type="button" className="rule-btn" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+          </div>
+          {!dataRange && (
+            <p className="description">Testing is available once historical data has loaded.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
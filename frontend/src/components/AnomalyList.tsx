@@ -1,51 +1,194 @@
-import React, { useMemo } from 'react';
-import type { Anomaly } from '../types';
-import { getAnomalyIcon, getAnomalyDescription } from '../utils/anomalyDetection';
+import React, { useMemo, useState } from 'react';
+import type { Anomaly, AnomalyCategory, AnomalyTriage, TriageUpdate, ZoneConfig } from '../types';
+import { ANOMALY_CATEGORIES, EMPTY_TRIAGE } from '../../../shared/anomalyTriage';
+import { formatDuration, getAnomalyIcon, getAnomalyDescription } from '../utils/anomalyDisplay';
+import { getAnomalyPriority, sortByPriority } from '../utils/anomalyPriority';
 import './AnomalyList.css';
 
+const MAX_VISIBLE_ANOMALIES = 20;
+
+type SortOrder = 'newest' | 'priority';
+
+const SORT_OPTIONS: Array<{ order: SortOrder; label: string }> = [
+  { order: 'newest', label: 'Newest' },
+  { order: 'priority', label: 'Priority' },
+];
+
+type AckFilter = 'all' | 'unacknowledged' | 'acknowledged';
+
+const ACK_FILTER_OPTIONS: Array<{ filter: AckFilter; label: string }> = [
+  { filter: 'all', label: 'All' },
+  { filter: 'unacknowledged', label: 'Unacknowledged' },
+  { filter: 'acknowledged', label: 'Acknowledged' },
+];
+
 interface AnomalyListProps {
   anomalies: Anomaly[];
+  zones: Map<string, ZoneConfig>;
+  operatorName: string;
+  onOperatorNameChange: (name: string) => void;
+  onAcknowledge: (anomaly: Anomaly) => void;
+  onUpdateTriage: (anomaly: Anomaly, changes: TriageUpdate) => void;
+  triageError: string | null;
 }
 
 interface AnomalyItemProps {
   anomaly: Anomaly;
+  zone: ZoneConfig | undefined;
+  onAcknowledge: (anomaly: Anomaly) => void;
+  onUpdateTriage: (anomaly: Anomaly, changes: TriageUpdate) => void;
 }
 
 // Utility for className concatenation
 const cn = (...classes: string[]) => classes.join(' ');
 
+// Format incident time span: "14:02:10 – 14:03:55" or "since 14:02:10"
+function formatTimeSpan(anomaly: Anomaly): string {
+  const start = new Date(anomaly.startTime).toLocaleTimeString();
+  if (!anomaly.endTime) return `since ${start}`;
+  return `${start} – ${new Date(anomaly.endTime).toLocaleTimeString()}`;
+}
+
+// Format an acknowledgement: "Acknowledged by Sam at 14:05:12"
+function formatAcknowledgement(triage: AnomalyTriage): string {
+  return `Acknowledged by ${triage.acknowledgedBy} at ${new Date(triage.acknowledgedAt!).toLocaleTimeString()}`;
+}
+
 // Memoized anomaly item component
-const AnomalyItem = React.memo(({ anomaly }: AnomalyItemProps) => (
-  <div className={cn('anomaly-item', `anomaly-item-${anomaly.severity}`)}>
-    <div className="anomaly-header">
-      <span className="anomaly-icon">{getAnomalyIcon(anomaly)}</span>
-      <span className="anomaly-zone">{anomaly.zoneName}</span>
-      <span className={cn('anomaly-type', `anomaly-type-${anomaly.type}`)}>
-        {anomaly.type.toUpperCase()}
-      </span>
-    </div>
-    
-    <div className="anomaly-details">
-      <div className="anomaly-description">
-        {getAnomalyDescription(anomaly)}
+const AnomalyItem = React.memo(({ anomaly, zone, onAcknowledge, onUpdateTriage }: AnomalyItemProps) => {
+  const [showTriage, setShowTriage] = useState(false);
+  const triage = anomaly.triage ?? EMPTY_TRIAGE;
+  const categoryLabel = ANOMALY_CATEGORIES.find(({ category }) => category === triage.category)?.label;
+
+  return (
+    <div className={cn('anomaly-item', `anomaly-item-${anomaly.severity}`, `anomaly-item-${anomaly.status}`)}>
+      <div className="anomaly-header">
+        <span className="anomaly-icon">{getAnomalyIcon(anomaly)}</span>
+        <span className="anomaly-zone">{anomaly.zoneName}</span>
+        <span className={cn('anomaly-status', `anomaly-status-${anomaly.status}`)}>
+          {anomaly.status === 'active' ? 'ACTIVE' : 'RESOLVED'}
+        </span>
+        <span className={cn('anomaly-type', `anomaly-type-${anomaly.type}`)}>
+          {anomaly.type.toUpperCase()}
+        </span>
+      </div>
+
+      <div className="anomaly-details">
+        <div className="anomaly-description">
+          {getAnomalyDescription(anomaly)}
+        </div>
+        <div className="anomaly-time">
+          {formatTimeSpan(anomaly)}
+        </div>
       </div>
-      <div className="anomaly-time">
-        {new Date(anomaly.timestamp).toLocaleTimeString()}
+
+      <div className="anomaly-meta">
+        <span>Duration: {formatDuration(anomaly.durationMs)}</span>
+        <span>Readings: {anomaly.readingCount}</span>
+        <span title="Severity weighted by zone priority">
+          Priority: {getAnomalyPriority(anomaly, zone)}{zone && ` (${zone.priority} zone)`}
+        </span>
       </div>
+
+      {/* Operator follow-up */}
+      <div className="anomaly-triage-summary">
+        {triage.acknowledgedAt ? (
+          <span className="anomaly-ack">✔ {formatAcknowledgement(triage)}</span>
+        ) : (
+          <button type="button" className="anomaly-action" onClick={() => onAcknowledge(anomaly)}>
+            Acknowledge
+          </button>
+        )}
+        {triage.assignee && <span>Assigned to {triage.assignee}</span>}
+        {categoryLabel && <span className="anomaly-category">{categoryLabel}</span>}
+        <button
+          type="button"
+          className="anomaly-action"
+          aria-expanded={showTriage}
+          onClick={() => setShowTriage(show => !show)}
+        >
+          {showTriage ? 'Hide notes' : triage.note ? 'Notes' : 'Add notes'}
+        </button>
+      </div>
+
+      {/* Text is saved when the field loses focus rather than on every key;
+          the key resets a field when someone else changes it */}
+      {showTriage && (
+        <div className="anomaly-triage">
+          <label>
+            Assignee
+            <input
+              key={triage.assignee}
+              type="text"
+              defaultValue={triage.assignee ?? ''}
+              placeholder="Unassigned"
+              onBlur={e => {
+                const assignee = e.target.value.trim() || null;
+                if (assignee !== triage.assignee) onUpdateTriage(anomaly, { assignee });
+              }}
+            />
+          </label>
+          <label>
+            Root cause
+            <select
+              value={triage.category ?? ''}
+              onChange={e => onUpdateTriage(anomaly, { category: (e.target.value || null) as AnomalyCategory | null })}
+            >
+              <option value="">Not categorised</option>
+              {ANOMALY_CATEGORIES.map(({ category, label }) => (
+                <option key={category} value={category}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="anomaly-note">
+            Note
+            <textarea
+              key={triage.note}
+              defaultValue={triage.note}
+              rows={2}
+              placeholder="What caused this, and what was done?"
+              onBlur={e => {
+                if (e.target.value !== triage.note) onUpdateTriage(anomaly, { note: e.target.value });
+              }}
+            />
+          </label>
+        </div>
+      )}
     </div>
-  </div>
-));
+  );
+});
 
 AnomalyItem.displayName = 'AnomalyItem';
 
-export function AnomalyList({ anomalies }: AnomalyListProps) {
-  // Memoize recent anomalies computation
-  const recentAnomalies = useMemo(
-    () => anomalies.slice(-20).reverse(),
+export function AnomalyList({
+  anomalies,
+  zones,
+  operatorName,
+  onOperatorNameChange,
+  onAcknowledge,
+  onUpdateTriage,
+  triageError,
+}: AnomalyListProps) {
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [ackFilter, setAckFilter] = useState<AckFilter>('all');
+
+  // Memoize visible incidents computation (filtered, newest or most urgent first)
+  const recentAnomalies = useMemo(() => {
+    const filtered = ackFilter === 'all'
+      ? anomalies
+      : anomalies.filter(a => Boolean(a.triage?.acknowledgedAt) === (ackFilter === 'acknowledged'));
+
+    return sortOrder === 'priority'
+      ? sortByPriority(filtered, zones).slice(0, MAX_VISIBLE_ANOMALIES)
+      : filtered.slice(-MAX_VISIBLE_ANOMALIES).reverse();
+  }, [anomalies, zones, sortOrder, ackFilter]);
+
+  const activeCount = useMemo(
+    () => anomalies.filter(a => a.status === 'active').length,
     [anomalies]
   );
 
-  if (recentAnomalies.length === 0) {
+  if (anomalies.length === 0) {
     return (
       <div className="anomaly-list">
         <h2>Anomaly Alerts</h2>
@@ -59,14 +202,65 @@ export function AnomalyList({ anomalies }: AnomalyListProps) {
 
   return (
     <div className="anomaly-list">
-      <h2>
-        Anomaly Alerts
-        <span className="anomaly-count">{recentAnomalies.length}</span>
-      </h2>
+      <div className="anomaly-list-header">
+        <h2>
+          Anomaly Alerts
+          <span className="anomaly-count" title="Active incidents">{activeCount}</span>
+        </h2>
+
+        <div className="anomaly-sort" aria-label="Sort anomalies">
+          {SORT_OPTIONS.map(({ order, label }) => (
+            <button
+              key={order}
+              type="button"
+              className={`anomaly-sort-btn ${sortOrder === order ? 'active' : ''}`}
+              onClick={() => setSortOrder(order)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="anomaly-toolbar">
+        <div className="anomaly-sort" aria-label="Filter anomalies">
+          {ACK_FILTER_OPTIONS.map(({ filter, label }) => (
+            <button
+              key={filter}
+              type="button"
+              className={`anomaly-sort-btn ${ackFilter === filter ? 'active' : ''}`}
+              onClick={() => setAckFilter(filter)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="anomaly-operator">
+          Acknowledge as
+          <input
+            type="text"
+            value={operatorName}
+            placeholder="Your name"
+            onChange={e => onOperatorNameChange(e.target.value)}
+          />
+        </label>
+      </div>
       
+      {triageError && <div className="anomaly-triage-error">{triageError}</div>}
+
       <div className="anomaly-items">
+        {recentAnomalies.length === 0 && (
+          <div className="no-anomalies">No {ackFilter} anomalies.</div>
+        )}
         {recentAnomalies.map((anomaly) => (
-          <AnomalyItem key={anomaly.id} anomaly={anomaly} />
+          <AnomalyItem
+            key={anomaly.id}
+            anomaly={anomaly}
+            zone={zones.get(anomaly.zoneId)}
+            onAcknowledge={onAcknowledge}
+            onUpdateTriage={onUpdateTriage}
+          />
         ))}
       </div>
     </div>
@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react';
+import type { AnomalySeverity, AnomalyType } from '../types';
+import { ANOMALY_TYPES } from '../../../shared/anomalies';
+import { useEnergy } from '../context/EnergyContext';
+import { useAnomalyLog } from '../hooks/useAnomalyLog';
+import { formatDuration, getAnomalyDescription, getAnomalyIcon } from '../utils/anomalyDisplay';
+import {
+  anomaliesToCsv,
+  anomaliesToJson,
+  downloadFile,
+  loadAnomalyLog,
+  type AnomalyLogQuery,
+} from '../utils/anomalyLog';
+import { ANOMALY_CATEGORIES } from '../../../shared/anomalyTriage';
+import './AnomalyLog.css';
+
+const PAGE_SIZE = 25;
+
+// Rule incidents are raised in the dashboard and never reach the server log
+const LOG_TYPES = ANOMALY_TYPES.filter(type => type !== 'rule');
+
+const SEVERITIES: AnomalySeverity[] = ['warning', 'critical'];
+
+type ExportFormat = 'csv' | 'json';
+
+// Filter form state ('' for no filter; dates as typed, 'YYYY-MM-DD')
+interface LogFilters {
+  zoneId: string;
+  type: AnomalyType | '';
+  severity: AnomalySeverity | '';
+  from: string;
+  to: string;
+  search: string;
+}
+
+const NO_FILTERS: LogFilters = { zoneId: '', type: '', severity: '', from: '', to: '', search: '' };
+
+// Utility for className concatenation
+const cn = (...classes: string[]) => classes.join(' ');
+
+// Start of a local calendar day, optionally days later ('' → undefined)
+function parseDay(value: string, addDays = 0): Date | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays);
+}
+
+/**
+ * Anomaly Log Component
+ *
+ * Every incident stored by the server, beyond the recent ones on the live
+ * dashboard, with filters, a search of triage notes, pagination and export
+ * of the filtered incidents to CSV or JSON.
+ */
+export function AnomalyLog() {
+  const { zones } = useEnergy();
+  const [filters, setFilters] = useState<LogFilters>(NO_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const search = filters.search.trim();
+
+  const query = useMemo<AnomalyLogQuery>(() => ({
+    zoneIds: filters.zoneId ? [filters.zoneId] : undefined,
+    types: filters.type ? [filters.type] : undefined,
+    severities: filters.severity ? [filters.severity] : undefined,
+    from: parseDay(filters.from),
+    to: parseDay(filters.to, 1), // Include the whole end day
+    search: search || undefined,
+  }), [filters.zoneId, filters.type, filters.severity, filters.from, filters.to, search]);
+
+  const { anomalies, total, loading, error, reload } = useAnomalyLog(query, PAGE_SIZE, offset);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<LogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setOffset(0);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const matches = await loadAnomalyLog(query);
+      const filename = `anomalies-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') {
+        downloadFile(filename, anomaliesToCsv(matches), 'text/csv');
+      } else {
+        downloadFile(filename, anomaliesToJson(matches), 'application/json');
+      }
+    } catch (err) {
+      setExportError('Export failed');
+      console.error('Error exporting anomaly log:', err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const lastShown = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div className="anomaly-log">
+      <div className="anomaly-log-header">
+        <h2>Anomaly Log</h2>
+        <div className="anomaly-log-actions">
+          <button type="button" className="log-btn" disabled={loading} onClick={reload}>
+            Refresh
+          </button>
+          <button
+            type="button"
+            className="log-btn"
+            disabled={exporting || total === 0}
+            onClick={() => void handleExport('csv')}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className="log-btn"
+            disabled={exporting || total === 0}
+            onClick={() => void handleExport('json')}
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+      <p className="description">
+        Incidents stored by the server. Exports include every incident matching the filters, with triage.
+        Alert rule incidents are raised in this browser and are not stored by the server, so they are not
+        listed here; see the Anomaly Alerts list on the dashboard.
+      </p>
+
+      {/* Filters */}
+      <div className="anomaly-log-filters">
+        <label>
+          Zone
+          <select value={filters.zoneId} onChange={e => updateFilters({ zoneId: e.target.value })}>
+            <option value="">All zones</option>
+            {Array.from(zones.values()).map(zone => (
+              <option key={zone.id} value={zone.id}>{zone.name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Type
+          <select value={filters.type} onChange={e => updateFilters({ type: e.target.value as AnomalyType | '' })}>
+            <option value="">All types</option>
+            {LOG_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label>
+          Severity
+          <select
+            value={filters.severity}
+            onChange={e => updateFilters({ severity: e.target.value as AnomalySeverity | '' })}
+          >
+            <option value="">All severities</option>
+            {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+          </select>
+        </label>
+        <label>
+          From
+          <input type="date" value={filters.from} onChange={e => updateFilters({ from: e.target.value })} />
+        </label>
+        <label>
+          To
+          <input type="date" value={filters.to} onChange={e => updateFilters({ to: e.target.value })} />
+        </label>
+        <label className="anomaly-log-search">
+          Search notes
+          <input
+            type="search"
+            value={filters.search}
+            placeholder="e.g. compressor"
+            onChange={e => updateFilters({ search: e.target.value })}
+          />
+        </label>
+        {hasFilters && (
+          <button type="button" className="log-btn" onClick={() => updateFilters(NO_FILTERS)}>
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && <div className="anomaly-log-error">{error}</div>}
+      {exportError && <div className="anomaly-log-error">{exportError}</div>}
+
+      {/* Incidents */}
+      {anomalies.length === 0 ? (
+        <div className="anomaly-log-empty">
+          {loading ? 'Loading…' : hasFilters ? 'No incidents match these filters.' : 'No incidents stored yet.'}
+        </div>
+      ) : (
+        <table className={cn('anomaly-log-table', loading ? 'loading' : '')}>
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Zone</th>
+              <th>Type</th>
+              <th>Severity</th>
+              <th>Details</th>
+              <th>Duration</th>
+              <th>Triage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {anomalies.map(anomaly => {
+              const entry = anomaly.triage;
+              const categoryLabel = ANOMALY_CATEGORIES.find(({ category }) => category === entry?.category)?.label;
+
+              return (
+                <tr key={anomaly.id}>
+                  <td>{new Date(anomaly.startTime).toLocaleString()}</td>
+                  <td>{anomaly.zoneName}</td>
+                  <td>{getAnomalyIcon(anomaly)} {anomaly.type}</td>
+                  <td>
+                    <span className={cn('log-severity', `log-severity-${anomaly.severity}`)}>
+                      {anomaly.severity}
+                    </span>
+                  </td>
+                  <td>{getAnomalyDescription(anomaly)}</td>
+                  <td>{anomaly.status === 'active' ? 'Active' : formatDuration(anomaly.durationMs)}</td>
+                  <td>
+                    <div className="log-triage">
+                      {entry?.acknowledgedBy && <span>✔ {entry.acknowledgedBy}</span>}
+                      {entry?.assignee && <span>Assigned to {entry.assignee}</span>}
+                      {categoryLabel && <span>{categoryLabel}</span>}
+                      {entry?.note && <span className="log-note">{entry.note}</span>}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {/* Pagination */}
+      {total > 0 && (
+        <div className="anomaly-log-pagination">
+          <span>{offset + 1}–{lastShown} of {total}</span>
+          <button
+            type="button"
+            className="log-btn"
+            disabled={loading || offset === 0}
+            onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            className="log-btn"
+            disabled={loading || lastShown >= total}
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,22 @@ import './ConnectionStatus.css';
 interface ConnectionStatusProps {
   status: Status;
   attempts: number;
+  maxAttempts?: number; // Infinity when retrying forever
+  onRetry?: () => void;
+  latencyMs?: number | null; // Last measured round trip to the server
+  rejectedMessages?: number; // Invalid messages dropped by the client
 }
 
-export function ConnectionStatus({ status, attempts }: ConnectionStatusProps) {
+export function ConnectionStatus({
+  status,
+  attempts,
+  maxAttempts = Infinity,
+  onRetry,
+  latencyMs = null,
+  rejectedMessages = 0,
+}: ConnectionStatusProps) {
+  const gaveUp = attempts >= maxAttempts;
+
   const getStatusInfo = () => {
     switch (status) {
       case 'CONNECTED':
@@ -14,7 +27,14 @@ export function ConnectionStatus({ status, attempts }: ConnectionStatusProps) {
       case 'CONNECTING':
         return { icon: '🟡', text: 'Connecting...', className: 'connecting' };
       case 'DISCONNECTED':
-        return { icon: '🔴', text: `Disconnected (${attempts}/5)`, className: 'disconnected' };
+        if (gaveUp) {
+          return { icon: '🔴', text: `Disconnected (gave up after ${attempts} attempts)`, className: 'disconnected' };
+        }
+        return {
+          icon: '🔴',
+          text: `Disconnected (attempt ${attempts}${Number.isFinite(maxAttempts) ? `/${maxAttempts}` : ''})`,
+          className: 'disconnected',
+        };
       case 'ERROR':
         return { icon: '⚠️', text: 'Connection Error', className: 'error' };
     }
@@ -26,6 +46,21 @@ export function ConnectionStatus({ status, attempts }: ConnectionStatusProps) {
     <div className={`connection-status ${info.className}`}>
       <span className="status-icon">{info.icon}</span>
       <span className="status-text">{info.text}</span>
+      {status === 'CONNECTED' && latencyMs !== null && (
+        <span className="status-latency" title="Round-trip time to the server">
+          {latencyMs} ms
+        </span>
+      )}
+      {onRetry && (status === 'DISCONNECTED' || status === 'ERROR') && (
+        <button type="button" className="status-retry" onClick={onRetry}>
+          Retry now
+        </button>
+      )}
+      {rejectedMessages > 0 && (
+        <span className="status-rejected" title="Messages that failed validation and were ignored">
+          {rejectedMessages} rejected
+        </span>
+      )}
     </div>
   );
 }
\ No newline at end of file
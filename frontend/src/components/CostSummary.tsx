@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { useEnergy } from '../context/EnergyContext';
+import { formatCost } from '../utils/energyCost';
+import { getNextBandChange } from '../../../shared/tariff';
+import './CostSummary.css';
+
+// Show "–" for costs that need history that is not available
+const formatOptionalCost = (amount: number | null) => (amount === null ? '–' : formatCost(amount));
+
+export function CostSummary() {
+  const { costs, costHistoryError, tariff, tariffError } = useEnergy();
+
+  // When the active band ends (bands change on the hour)
+  const asOfHour = costs ? Math.floor(costs.asOf / 3600000) : null;
+  const nextBandChange = useMemo(
+    () => (tariff && asOfHour !== null ? getNextBandChange(tariff, new Date(asOfHour * 3600000)) : null),
+    [tariff, asOfHour]
+  );
+
+  if (!costs) {
+    return (
+      <div className="cost-summary">
+        <h2>Energy Cost</h2>
+        <div className="no-data">Waiting for live readings...</div>
+      </div>
+    );
+  }
+
+  const totals = [
+    { label: 'Today so far', value: formatCost(costs.todayCost) },
+    { label: 'Projected today', value: formatCost(costs.projectedDayCost) },
+    { label: 'Projected this month', value: formatCost(costs.projectedMonthCost) },
+    ...(costs.demandCharge ? [{
+      label: `Demand charge (${costs.demandCharge.peakKw.toFixed(0)} kW peak)`,
+      value: formatCost(costs.demandCharge.cost),
+    }] : []),
+    { label: 'Typical day (history)', value: formatOptionalCost(costs.avgDailyCost) },
+    { label: 'Last week (history)', value: formatOptionalCost(costs.lastWeekCost) },
+  ];
+
+  return (
+    <div className="cost-summary">
+      <div className="cost-header">
+        <div>
+          <h2>Energy Cost</h2>
+          <p className="description">
+            {tariff ? tariff.name : 'Flat zone rates'} · since midnight, projected from typical hourly load · as of{' '}
+            {new Date(costs.asOf).toLocaleTimeString()}
+          </p>
+        </div>
+
+        {/* Tariff band in effect now */}
+        {costs.activeBand && (
+          <div
+            className="tariff-band"
+            style={{ borderColor: costs.activeBand.color, color: costs.activeBand.color }}
+          >
+            <span className="band-name">{costs.activeBand.name}</span>
+            <span className="band-rate">{formatCost(costs.activeBand.ratePerKwh)}/kWh</span>
+            {nextBandChange && (
+              <span className="band-until">
+                until {nextBandChange.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Plant-wide totals */}
+      <div className="cost-totals">
+        {totals.map(({ label, value }) => (
+          <div key={label} className="cost-total">
+            <span className="label">{label}</span>
+            <span className="value">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {tariffError && <div className="error">{tariffError}</div>}
+      {costHistoryError && <div className="error">{costHistoryError}</div>}
+
+      {/* Per-zone breakdown */}
+      <table className="cost-table">
+        <thead>
+          <tr>
+            <th>Zone</th>
+            <th>Rate now</th>
+            <th>Today</th>
+            <th>Cost today</th>
+            <th>Projected today</th>
+            <th>Projected month</th>
+            <th>Typical day</th>
+            <th>Last week</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from(costs.zones.values()).map(cost => (
+            <tr key={cost.zoneId}>
+              <td>{cost.zoneName}</td>
+              <td>{formatCost(cost.currentRate)}/kWh</td>
+              <td>{cost.todayKwh.toFixed(1)} kWh</td>
+              <td>{formatCost(cost.todayCost)}</td>
+              <td>{formatCost(cost.projectedDayCost)}</td>
+              <td>{formatCost(cost.projectedMonthCost)}</td>
+              <td>{formatOptionalCost(cost.avgDailyCost)}</td>
+              <td>{formatOptionalCost(cost.lastWeekCost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
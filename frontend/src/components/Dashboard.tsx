@@ -1,37 +1,129 @@
+import { useState } from 'react';
 import { useEnergy } from '../context/EnergyContext';
 import { ConnectionStatus } from './ConnectionStatus';
 import { ZoneCard } from './ZoneCard';
 import { EnergyChart } from './EnergyChart';
 import { AnomalyList } from './AnomalyList';
 import { HistoricalComparison } from './HistoricalComparison';
+import { CostSummary } from './CostSummary';
+import { DemandStatus } from './DemandStatus';
+import { AlertRules } from './AlertRules';
+import { Notifications } from './Notifications';
+import { AnomalyLog } from './AnomalyLog';
 import './Dashboard.css';
 
+type DashboardView = 'live' | 'log';
+
+const VIEW_OPTIONS: Array<{ view: DashboardView; label: string }> = [
+  { view: 'live', label: 'Live' },
+  { view: 'log', label: 'Anomaly Log' },
+];
+
 export function Dashboard() {
-  const { latestReadings, anomalies, connectionStatus, reconnectAttempts } = useEnergy();
+  const [view, setView] = useState<DashboardView>('live');
+  const {
+    latestReadings,
+    anomalies,
+    operatorName,
+    setOperatorName,
+    acknowledgeAnomaly,
+    updateTriage,
+    triageError,
+    staleZones,
+    costs,
+    demand,
+    demandLimitKw,
+    connectionStatus,
+    reconnectAttempts,
+    maxReconnectAttempts,
+    retryConnection,
+    latencyMs,
+    rejectedMessages,
+    zones,
+    zonesError,
+  } = useEnergy();
 
   return (
     <div className="dashboard">
       {/* Header */}
       <header className="dashboard-header">
         <h1>Energy Dashboard</h1>
-        <ConnectionStatus status={connectionStatus} attempts={reconnectAttempts} />
+        <nav className="view-switch">
+          {VIEW_OPTIONS.map(option => (
+            <button
+              key={option.view}
+              type="button"
+              className={`view-btn ${view === option.view ? 'active' : ''}`}
+              aria-pressed={view === option.view}
+              onClick={() => setView(option.view)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </nav>
+        <div className="header-status">
+          <DemandStatus demand={demand} limitKw={demandLimitKw} />
+          <ConnectionStatus
+            status={connectionStatus}
+            attempts={reconnectAttempts}
+            maxAttempts={maxReconnectAttempts}
+            onRetry={retryConnection}
+            latencyMs={latencyMs}
+            rejectedMessages={rejectedMessages}
+          />
+        </div>
       </header>
 
-      {/* Zone Cards Grid */}
-      <div className="zones-grid">
-        {Array.from(latestReadings.entries()).map(([zoneId, reading]) => (
-          <ZoneCard key={zoneId} reading={reading} anomalies={anomalies} />
-        ))}
-      </div>
+      {/* Zone config problems disable detection, so make them visible */}
+      {zonesError && (
+        <div className="dashboard-error">{zonesError}</div>
+      )}
+
+      {/* Stored incidents replace the live panels (the feed keeps running) */}
+      {view === 'log' ? (
+        <AnomalyLog />
+      ) : (
+        <>
+          {/* Zone Cards Grid */}
+          <div className="zones-grid">
+            {Array.from(latestReadings.entries()).map(([zoneId, reading]) => (
+              <ZoneCard
+                key={zoneId}
+                reading={reading}
+                anomalies={anomalies}
+                staleForMs={staleZones.get(zoneId)}
+                cost={costs?.zones.get(zoneId)}
+              />
+            ))}
+          </div>
+
+          {/* Time-series chart */}
+          <EnergyChart />
+
+          {/* Historical Comparison */}
+          <HistoricalComparison latestReadings={latestReadings} />
+
+          {/* Energy cost */}
+          <CostSummary />
 
-      {/* Time-series chart */}
-      <EnergyChart />
+          {/* Anomaly List */}
+          <AnomalyList
+            anomalies={anomalies}
+            zones={zones}
+            operatorName={operatorName}
+            onOperatorNameChange={setOperatorName}
+            onAcknowledge={acknowledgeAnomaly}
+            onUpdateTriage={updateTriage}
+            triageError={triageError}
+          />
 
-      {/* Historical Comparison */}
-      <HistoricalComparison latestReadings={latestReadings} />
+          {/* Alert rule settings */}
+          <AlertRules />
 
-      {/* Anomaly List */}
-      <AnomalyList anomalies={anomalies} />
+          {/* Notification settings */}
+          <Notifications />
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { getDemandStatus, type DemandSnapshot } from '../utils/peakDemand';
+import './DemandStatus.css';
+
+interface DemandStatusProps {
+  demand: DemandSnapshot | null;
+  limitKw: number | null; // Site demand limit (null when not configured)
+}
+
+const formatKw = (kw: number) => `${kw.toFixed(0)} kW`;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export function DemandStatus({ demand, limitKw }: DemandStatusProps) {
+  if (!demand) return null;
+
+  const status = getDemandStatus(demand, limitKw);
+  const { plantKw, rollingKw, interval } = demand;
+
+  const getStatusInfo = () => {
+    switch (status) {
+      case 'ok':
+        return { icon: '⚡', className: 'ok' };
+      case 'forecast-breach':
+        return { icon: '⚠️', className: 'forecast-breach' };
+      case 'breach':
+        return { icon: '🚨', className: 'breach' };
+    }
+  };
+
+  const info = getStatusInfo();
+
+  return (
+    <div
+      className={`demand-status ${info.className}`}
+      title="Plant demand is billed on the highest 15-minute average"
+    >
+      <span className="demand-icon">{info.icon}</span>
+      <span className="demand-now">{formatKw(plantKw)}</span>
+      <span className="demand-rolling">
+        15-min avg {rollingKw === null ? '–' : formatKw(rollingKw)}
+        {limitKw !== null && ` / ${formatKw(limitKw)} limit`}
+      </span>
+      {status === 'breach' && (
+        <span className="demand-alert">Over demand limit</span>
+      )}
+      {status === 'forecast-breach' && interval && (
+        <span className="demand-alert">
+          Forecast {formatKw(interval.forecastKw)} by {formatTime(interval.end)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,28 @@
 import { useMemo, useState, useCallback } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useEnergy } from '../context/EnergyContext';
+import { getZoneColor } from '../utils/zonesConfig';
 import './EnergyChart.css';
 
-// Zone colors for consistent visualization
-const ZONE_COLORS: Record<string, string> = {
-  'assembly-1': '#0066cc',
-  'paint-shop': '#28a745',
-  'stamping-press': '#dc3545',
-  'quality-control': '#ffc107',
-  'warehouse': '#6c757d',
-};
+const MIN_DATA_POINTS = 1000; // Wait for 1000+ points before showing chart
 
-const ZONE_NAMES: Record<string, string> = {
-  'assembly-1': 'Assembly Line 1',
-  'paint-shop': 'Paint Shop',
-  'stamping-press': 'Stamping Press',
-  'quality-control': 'Quality Control',
-  'warehouse': 'Warehouse',
-};
+// Temperature values are stored next to energy as `${zoneId}:temp`
+const TEMPERATURE_KEY_SUFFIX = ':temp';
 
-const MIN_DATA_POINTS = 1000; // Wait for 1000+ points before showing chart
+type ChartSeries = 'energy' | 'temperature' | 'both';
+
+const SERIES_OPTIONS: Array<{ series: ChartSeries; label: string }> = [
+  { series: 'energy', label: 'Energy' },
+  { series: 'temperature', label: 'Temperature' },
+  { series: 'both', label: 'Both' },
+];
 
 export function EnergyChart() {
-  const { readings } = useEnergy();
+  const { readings, zones } = useEnergy();
   const [snapshotData, setSnapshotData] = useState<any[] | null>(null);
+  const [series, setSeries] = useState<ChartSeries>('energy');
+  const showEnergy = series !== 'temperature';
+  const showTemperature = series !== 'energy';
 
   // Process readings into chart format using useMemo for performance
   const processedData = useMemo(() => {
@@ -49,6 +47,7 @@ export function EnergyChart() {
         
         const dataPoint = timeMap.get(timestamp)!;
         dataPoint[zoneId] = reading.energyKw;
+        dataPoint[`${zoneId}${TEMPERATURE_KEY_SUFFIX}`] = reading.temperature;
       });
     });
 
@@ -130,8 +129,20 @@ export function EnergyChart() {
         marginBottom: '10px'
       }}>
         <h2 style={{ margin: 0 }}>
-          Energy Consumption Over Time (Last 1000 Points)
+          {series === 'temperature' ? 'Temperature' : 'Energy Consumption'} Over Time (Last 1000 Points)
         </h2>
+        <div className="chart-series-selector">
+          {SERIES_OPTIONS.map(option => (
+            <button
+              key={option.series}
+              type="button"
+              className={`chart-series-btn ${series === option.series ? 'active' : ''}`}
+              onClick={() => setSeries(option.series)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
         <button
           onClick={handleUpdate}
           style={{
@@ -162,69 +173,69 @@ export function EnergyChart() {
             tick={{ fontSize: 12 }}
             interval="preserveStartEnd"
           />
-          <YAxis
-            label={{ value: 'Energy (kW)', angle: -90, position: 'insideLeft' }}
-            tick={{ fontSize: 12 }}
-          />
+          {showEnergy && (
+            <YAxis
+              yAxisId="energy"
+              label={{ value: 'Energy (kW)', angle: -90, position: 'insideLeft' }}
+              tick={{ fontSize: 12 }}
+            />
+          )}
+          {showTemperature && (
+            <YAxis
+              yAxisId="temperature"
+              orientation={showEnergy ? 'right' : 'left'}
+              domain={['auto', 'auto']}
+              label={{
+                value: 'Temperature (°C)',
+                angle: showEnergy ? 90 : -90,
+                position: showEnergy ? 'insideRight' : 'insideLeft',
+              }}
+              tick={{ fontSize: 12 }}
+            />
+          )}
           <Tooltip
             contentStyle={{ backgroundColor: '#fff', border: '1px solid #ccc' }}
-            formatter={(value: any) => [`${Number(value).toFixed(1)} kW`, '']}
+            formatter={(value: any, _name, item) => [
+              `${Number(value).toFixed(1)} ${String(item.dataKey).endsWith(TEMPERATURE_KEY_SUFFIX) ? '°C' : 'kW'}`,
+              '',
+            ]}
           />
           <Legend
             wrapperStyle={{ paddingTop: '10px' }}
           />
           
-          {/* Line for each zone */}
-          <Line
-            type="monotone"
-            dataKey="assembly-1"
-            stroke={ZONE_COLORS['assembly-1']}
-            strokeWidth={3}
-            name={ZONE_NAMES['assembly-1']}
-            dot={false}
-            isAnimationActive={false}
-            connectNulls={true}
-          />
-          <Line
-            type="monotone"
-            dataKey="paint-shop"
-            stroke={ZONE_COLORS['paint-shop']}
-            strokeWidth={3}
-            name={ZONE_NAMES['paint-shop']}
-            dot={false}
-            isAnimationActive={false}
-            connectNulls={true}
-          />
-          <Line
-            type="monotone"
-            dataKey="stamping-press"
-            stroke={ZONE_COLORS['stamping-press']}
-            strokeWidth={3}
-            name={ZONE_NAMES['stamping-press']}
-            dot={false}
-            isAnimationActive={false}
-            connectNulls={true}
-          />
-          <Line
-            type="monotone"
-            dataKey="quality-control"
-            stroke={ZONE_COLORS['quality-control']}
-            strokeWidth={3}
-            name={ZONE_NAMES['quality-control']}
-            dot={false}
-            isAnimationActive={false}
-            connectNulls={true}
-          />
-          <Line
-            type="monotone"
-            dataKey="warehouse"
-            stroke={ZONE_COLORS['warehouse']}
-            strokeWidth={3}
-            name={ZONE_NAMES['warehouse']}
-            dot={false}
-            isAnimationActive={false}
-            connectNulls={true}
-          />
+          {/* Line for each configured zone */}
+          {showEnergy && Array.from(zones.values()).map((zone, index) => (
+            <Line
+              key={zone.id}
+              yAxisId="energy"
+              type="monotone"
+              dataKey={zone.id}
+              stroke={getZoneColor(zone, index)}
+              strokeWidth={3}
+              name={zone.name}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls={true}
+            />
+          ))}
+
+          {/* Temperature per zone (dashed when shown with energy) */}
+          {showTemperature && Array.from(zones.values()).map((zone, index) => (
+            <Line
+              key={`${zone.id}${TEMPERATURE_KEY_SUFFIX}`}
+              yAxisId="temperature"
+              type="monotone"
+              dataKey={`${zone.id}${TEMPERATURE_KEY_SUFFIX}`}
+              stroke={getZoneColor(zone, index)}
+              strokeWidth={showEnergy ? 1.5 : 3}
+              strokeDasharray={showEnergy ? '5 3' : undefined}
+              name={showEnergy ? `${zone.name} (°C)` : zone.name}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls={true}
+            />
+          ))}
         </LineChart>
       </ResponsiveContainer>
     </div>
@@ -1,33 +1,126 @@
 import { useState, useMemo, type ReactNode } from 'react';
 import type { EnergyReading } from '../types';
-import { useHistoricalData } from '../hooks/useHistoricalData';
+import { useEnergy } from '../context/EnergyContext';
 import {
+  calculateBaselines,
   calculatePercentageDiff,
   formatPercentage,
   getComparisonStatus,
+  getDataRange,
+  shiftIntoRange,
   type HistoricalBaseline,
 } from '../utils/historicalData';
+import { getHourlyBaseline } from '../../../shared/baselineModel';
+import { useAggregates } from '../hooks/useAggregates';
 import './HistoricalComparison.css';
 
 interface HistoricalComparisonProps {
   latestReadings: Map<string, EnergyReading>;
 }
 
-type TimeRange = 'hour' | 'today' | 'week';
+type TimeRange = 'hour' | 'today' | 'typical' | 'last-week' | 'week' | 'custom';
+
+const TIME_RANGE_OPTIONS: Array<{ range: TimeRange; label: string }> = [
+  { range: 'hour', label: 'Last Hour' },
+  { range: 'today', label: 'Today' },
+  { range: 'typical', label: 'Typical Hour' },
+  { range: 'last-week', label: 'Same Hour Last Week' },
+  { range: 'week', label: 'This Week' },
+  { range: 'custom', label: 'Custom' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+// Reference statistics for one zone (typicalRange only for the model)
+type ReferenceStats = HistoricalBaseline & {
+  typicalRange?: { min: number; max: number }; // 5th-95th percentile
+};
+
+interface Reference {
+  stats: Map<string, ReferenceStats>;
+  window: { from: Date; to: Date } | null; // Time window the stats were taken from
+}
+
+interface CustomRange {
+  from: string; // datetime-local input values
+  to: string;
+}
 
 function getTimeRangeDescription(range: TimeRange): string {
   switch (range) {
-    case 'hour': return 'last hour average';
-    case 'today': return 'today\'s average';
+    case 'hour': return 'the live average over the last hour';
+    case 'today': return 'the same day so far in the historical data';
+    case 'typical': return 'the typical level for this hour';
+    case 'last-week': return 'the same hour last week';
     case 'week': return '7-day average';
+    case 'custom': return 'a custom historical range';
+  }
+}
+
+/**
+ * Format a date for a datetime-local input (local time, minute precision)
+ */
+function toInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function formatWindow(window: { from: Date; to: Date }): string {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
+  };
+  return `${window.from.toLocaleString(undefined, options)} – ${window.to.toLocaleString(undefined, options)}`;
+}
+
+/**
+ * Statistics for the live buffer over the hour before `now`
+ */
+function getLiveHourReference(readings: Map<string, EnergyReading[]>, now: number): Reference {
+  const from = new Date(now - HOUR_MS);
+  const to = new Date(now);
+  const lastHour: EnergyReading[] = [];
+
+  for (const zoneReadings of readings.values()) {
+    lastHour.push(...zoneReadings.filter(r => {
+      const time = new Date(r.timestamp).getTime();
+      return time >= from.getTime() && time <= now;
+    }));
   }
+
+  return { stats: calculateBaselines(lastHour), window: { from, to } };
 }
 
-function filterBaselineByTimeRange(baseline: HistoricalBaseline, range: TimeRange): HistoricalBaseline {
+/**
+ * Historical window for ranges aggregated on demand by the backend
+ *
+ * Windows relative to `now` ('today', 'last-week') are shifted back by whole
+ * weeks into the dataset, so they match the same weekday and time of day.
+ * 'today' always goes back at least a week, so it isn't compared with itself.
+ */
+function getAggregateWindow(
+  range: TimeRange,
+  now: number,
+  dataRange: { start: Date; end: Date } | null,
+  customRange: CustomRange
+): { from: Date; to: Date } | null {
+  if (!dataRange) return null;
+
   switch (range) {
-    case 'hour': return { ...baseline, avgEnergyKw: baseline.avgEnergyKw * 1.05 };
-    case 'today': return { ...baseline, avgEnergyKw: baseline.avgEnergyKw * 1.02 };
-    case 'week': default: return baseline;
+    case 'today': {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+      return shiftIntoRange(midnight, new Date(now), dataRange, 1);
+    }
+    case 'last-week':
+      return shiftIntoRange(new Date(now - WEEK_MS - HOUR_MS), new Date(now - WEEK_MS), dataRange);
+    case 'custom': {
+      const from = customRange.from ? new Date(customRange.from) : dataRange.start;
+      const to = customRange.to ? new Date(customRange.to) : dataRange.end;
+      return from < to ? { from, to } : null;
+    }
+    default:
+      return null;
   }
 }
 
@@ -37,11 +130,13 @@ function filterBaselineByTimeRange(baseline: HistoricalBaseline, range: TimeRang
 function HistoricalComparisonLayout({
   children,
   timeRange,
-  onTimeRangeChange
+  onTimeRangeChange,
+  window,
 }: {
   children: ReactNode;
   timeRange: TimeRange;
   onTimeRangeChange: (range: TimeRange) => void;
+  window: { from: Date; to: Date } | null;
 }) {
   return (
     <div className="historical-comparison">
@@ -51,27 +146,21 @@ function HistoricalComparisonLayout({
           <p className="description">
             Comparing current energy usage to {getTimeRangeDescription(timeRange)}
           </p>
+          {window && timeRange !== 'typical' && (
+            <p className="description window">{formatWindow(window)}</p>
+          )}
         </div>
-        
+
         <div className="time-range-selector">
-          <button
-            className={`time-range-btn ${timeRange === 'hour' ? 'active' : ''}`}
-            onClick={() => onTimeRangeChange('hour')}
-          >
-            Last Hour
-          </button>
-          <button
-            className={`time-range-btn ${timeRange === 'today' ? 'active' : ''}`}
-            onClick={() => onTimeRangeChange('today')}
-          >
-            Today
-          </button>
-          <button
-            className={`time-range-btn ${timeRange === 'week' ? 'active' : ''}`}
-            onClick={() => onTimeRangeChange('week')}
-          >
-            This Week
-          </button>
+          {TIME_RANGE_OPTIONS.map(({ range, label }) => (
+            <button
+              key={range}
+              className={`time-range-btn ${timeRange === range ? 'active' : ''}`}
+              onClick={() => onTimeRangeChange(range)}
+            >
+              {label}
+            </button>
+          ))}
         </div>
       </div>
       {children}
@@ -81,17 +170,22 @@ function HistoricalComparisonLayout({
 
 /**
  * HistoricalComparison Component
- * 
- * Compares current energy usage against 7-day historical baseline.
- * Shows percentage difference and status (above/below/normal) for each zone.
- * 
+ *
+ * Compares current energy usage against a reference computed from real data:
+ * - Last Hour: live readings buffered by EnergyProvider
+ * - Today / Same Hour Last Week: matching window in the historical dataset
+ *   (same weekday and time of day)
+ * - Typical Hour: hour-of-day baseline model (same hour, weekday/weekend)
+ * - This Week / Custom: whole dataset or a chosen date range
+ *
+ * Historical windows are aggregated by the backend from raw readings, so
+ * min/max reflect individual readings rather than averages.
+ *
  * Features:
- * - Loads historical data from JSON file on mount
- * - Calculates average baseline per zone
- * - Shows current vs baseline comparison
+ * - Shows current vs reference average, with min/max and sample count
  * - Color-coded status indicators (green/orange/blue)
  * - Percentage difference display
- * 
+ *
  * Status Thresholds:
  * - Normal: Within ±10% of baseline
  * - Above: More than +10% above baseline
@@ -99,7 +193,59 @@ function HistoricalComparisonLayout({
  */
 export function HistoricalComparison({ latestReadings }: HistoricalComparisonProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>('week');
-  const { baselines, loading, error } = useHistoricalData();
+  const [customRange, setCustomRange] = useState<CustomRange>({ from: '', to: '' });
+  const {
+    readings,
+    historicalReadings,
+    baselines,
+    baselineModel,
+    historicalLoading: loading,
+    historicalError: error,
+  } = useEnergy();
+
+  // Reference time is the newest live reading, so comparisons stay pure
+  const now = useMemo(() => {
+    let latest = 0;
+    for (const reading of latestReadings.values()) {
+      latest = Math.max(latest, new Date(reading.timestamp).getTime());
+    }
+    return latest;
+  }, [latestReadings]);
+
+  // Historical windows only move once a minute
+  const nowMinute = Math.floor(now / 60000) * 60000;
+
+  const dataRange = useMemo(() => getDataRange(historicalReadings), [historicalReadings]);
+
+  const liveReference = useMemo(
+    () => (timeRange === 'hour' ? getLiveHourReference(readings, now) : null),
+    [timeRange, readings, now]
+  );
+
+  const aggregateWindow = useMemo(
+    () => getAggregateWindow(timeRange, nowMinute, dataRange, customRange),
+    [timeRange, nowMinute, dataRange, customRange]
+  );
+
+  const {
+    stats: windowStats,
+    window: loadedWindow,
+    loading: windowLoading,
+    error: windowError,
+  } = useAggregates(aggregateWindow?.from.getTime() ?? null, aggregateWindow?.to.getTime() ?? null);
+
+  const reference = useMemo((): Reference | null => {
+    if (liveReference) return liveReference;
+
+    const fullRange = dataRange && { from: dataRange.start, to: dataRange.end };
+    switch (timeRange) {
+      case 'typical':
+      case 'week':
+        return { stats: baselines, window: fullRange };
+      default:
+        return aggregateWindow ? { stats: windowStats, window: loadedWindow } : null;
+    }
+  }, [liveReference, timeRange, dataRange, baselines, aggregateWindow, windowStats, loadedWindow]);
 
   const comparisons = useMemo(() => {
     const results: Array<{
@@ -107,53 +253,115 @@ export function HistoricalComparison({ latestReadings }: HistoricalComparisonPro
       zoneName: string;
       current: number;
       baseline: number;
+      min: number;
+      max: number;
+      samples: number;
+      typicalRange?: { min: number; max: number };
       percentage: number;
       status: 'normal' | 'above' | 'below';
     }> = [];
 
     for (const [zoneId, reading] of latestReadings.entries()) {
-      const baseline = baselines.get(zoneId);
-      if (!baseline) continue;
+      let stats = reference?.stats.get(zoneId);
+
+      // Typical hour uses the baseline model at the reading's own time
+      if (timeRange === 'typical') {
+        const hourly = baselineModel && getHourlyBaseline(baselineModel, zoneId, new Date(reading.timestamp));
+        stats = hourly ? {
+          zoneId,
+          zoneName: reading.zoneName,
+          avgEnergyKw: hourly.mean,
+          minEnergyKw: hourly.min,
+          maxEnergyKw: hourly.max,
+          dataPoints: hourly.count,
+          typicalRange: { min: hourly.p5, max: hourly.p95 },
+        } : undefined;
+      }
 
-      const filteredBaseline = filterBaselineByTimeRange(baseline, timeRange);
-      const percentage = calculatePercentageDiff(reading.energyKw, filteredBaseline.avgEnergyKw);
+      if (!stats || stats.dataPoints === 0) continue;
+
+      const percentage = calculatePercentageDiff(reading.energyKw, stats.avgEnergyKw);
       const status = getComparisonStatus(percentage);
 
       results.push({
         zoneId,
         zoneName: reading.zoneName,
         current: reading.energyKw,
-        baseline: filteredBaseline.avgEnergyKw,
+        baseline: stats.avgEnergyKw,
+        min: stats.minEnergyKw,
+        max: stats.maxEnergyKw,
+        samples: stats.dataPoints,
+        typicalRange: stats.typicalRange,
         percentage,
         status,
       });
     }
 
     return results;
-  }, [latestReadings, baselines, timeRange]);
+  }, [latestReadings, reference, baselineModel, timeRange]);
+
+  const layoutProps = {
+    timeRange,
+    onTimeRangeChange: setTimeRange,
+    window: reference?.window ?? null,
+  };
+
+  // The live hour does not depend on historical data
+  const needsHistory = timeRange !== 'hour';
+
+  // Aggregated windows keep showing the previous result while refreshing
+  const windowPending = aggregateWindow !== null && windowLoading && loadedWindow === null;
+  const windowFailed = aggregateWindow !== null ? windowError : null;
 
   // Loading state
-  if (loading) {
+  if (needsHistory && (loading || windowPending)) {
     return (
-      <HistoricalComparisonLayout timeRange={timeRange} onTimeRangeChange={setTimeRange}>
+      <HistoricalComparisonLayout {...layoutProps}>
         <div className="loading">Loading historical data...</div>
       </HistoricalComparisonLayout>
     );
   }
 
   // Error state
-  if (error) {
+  if (needsHistory && (error || windowFailed)) {
     return (
-      <HistoricalComparisonLayout timeRange={timeRange} onTimeRangeChange={setTimeRange}>
-        <div className="error">{error}</div>
+      <HistoricalComparisonLayout {...layoutProps}>
+        <div className="error">{error ?? windowFailed}</div>
       </HistoricalComparisonLayout>
     );
   }
 
+  // Custom range picker (defaults to the full dataset)
+  const customRangePicker = timeRange === 'custom' && dataRange && (
+    <div className="custom-range">
+      <label>
+        From
+        <input
+          type="datetime-local"
+          value={customRange.from || toInputValue(dataRange.start)}
+          min={toInputValue(dataRange.start)}
+          max={toInputValue(dataRange.end)}
+          onChange={(e) => setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+        />
+      </label>
+      <label>
+        To
+        <input
+          type="datetime-local"
+          value={customRange.to || toInputValue(dataRange.end)}
+          min={toInputValue(dataRange.start)}
+          max={toInputValue(dataRange.end)}
+          onChange={(e) => setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+        />
+      </label>
+    </div>
+  );
+
   // No data state
   if (comparisons.length === 0) {
     return (
-      <HistoricalComparisonLayout timeRange={timeRange} onTimeRangeChange={setTimeRange}>
+      <HistoricalComparisonLayout {...layoutProps}>
+        {customRangePicker}
         <div className="no-data">No comparison data available</div>
       </HistoricalComparisonLayout>
     );
@@ -161,7 +369,8 @@ export function HistoricalComparison({ latestReadings }: HistoricalComparisonPro
 
   // Main comparison display
   return (
-    <HistoricalComparisonLayout timeRange={timeRange} onTimeRangeChange={setTimeRange}>
+    <HistoricalComparisonLayout {...layoutProps}>
+      {customRangePicker}
       <div className="comparison-grid">
         {comparisons.map((comp) => (
           <div key={comp.zoneId} className={`comparison-card comparison-${comp.status}`}>
@@ -187,6 +396,18 @@ export function HistoricalComparison({ latestReadings }: HistoricalComparisonPro
               </div>
             </div>
 
+            {/* Reference range and sample count */}
+            <div className="comparison-stats">
+              Min {comp.min.toFixed(1)} · Max {comp.max.toFixed(1)} kW · {comp.samples.toLocaleString()} samples
+            </div>
+
+            {/* Typical band for this hour (5th-95th percentile) */}
+            {comp.typicalRange && (
+              <div className="comparison-typical">
+                Typical: {comp.typicalRange.min.toFixed(1)}–{comp.typicalRange.max.toFixed(1)} kW
+              </div>
+            )}
+
             {/* Percentage difference */}
             <div className="comparison-diff">
               <span className={`percentage percentage-${comp.status}`}>
@@ -199,4 +420,4 @@ export function HistoricalComparison({ latestReadings }: HistoricalComparisonPro
       </div>
     </HistoricalComparisonLayout>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useEnergy } from '../context/EnergyContext';
+import {
+  getDesktopPermission,
+  playAlarm,
+  requestDesktopPermission,
+  showTestNotification,
+  type NotificationSettings,
+} from '../utils/notifications';
+import './Notifications.css';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DEFAULT_QUIET_HOURS = { start: 22, end: 6 };
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Notifications Component
+ *
+ * Settings for desktop and sound alerts on critical anomalies: channels,
+ * quiet hours and the zones subscribed to, plus a test button.
+ */
+export function Notifications() {
+  const { zones, notificationSettings: settings, setNotificationSettings } = useEnergy();
+  const [permission, setPermission] = useState(getDesktopPermission);
+
+  const update = (changes: Partial<NotificationSettings>) => {
+    setNotificationSettings({ ...settings, ...changes });
+  };
+
+  // Desktop notifications need the browser's permission first
+  const handleDesktopChange = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ desktop: false });
+      return;
+    }
+
+    const result = permission === 'granted' ? permission : await requestDesktopPermission();
+    setPermission(result);
+    update({ desktop: result === 'granted' });
+  };
+
+  const zoneList = Array.from(zones.values());
+  const isSubscribed = (zoneId: string) => settings.zoneIds === null || settings.zoneIds.includes(zoneId);
+
+  // Subscribing to every zone is stored as null, so new zones are included
+  const handleZoneChange = (zoneId: string, subscribed: boolean) => {
+    const zoneIds = zoneList
+      .map(zone => zone.id)
+      .filter(id => (id === zoneId ? subscribed : isSubscribed(id)));
+    update({ zoneIds: zoneIds.length === zoneList.length ? null : zoneIds });
+  };
+
+  const handleTest = () => {
+    if (settings.desktop) showTestNotification();
+    if (settings.sound) playAlarm();
+  };
+
+  return (
+    <div className="notifications">
+      <h2>Notifications</h2>
+      <p className="description">
+        Alerts for new critical anomalies, so they are seen when the dashboard is in the background.
+      </p>
+
+      <div className="notification-options">
+        <div className="notification-group">
+          <h3>Channels</h3>
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.desktop}
+              disabled={permission === 'unsupported'}
+              onChange={e => void handleDesktopChange(e.target.checked)}
+            />
+            Desktop notifications
+          </label>
+          {permission === 'denied' && (
+            <p className="notification-hint">Blocked by the browser. Allow notifications for this site to use them.</p>
+          )}
+          {permission === 'unsupported' && (
+            <p className="notification-hint">Not supported by this browser.</p>
+          )}
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.sound}
+              onChange={e => update({ sound: e.target.checked })}
+            />
+            Sound alarm
+          </label>
+          <button
+            type="button"
+            className="notification-test-btn"
+            disabled={!settings.desktop && !settings.sound}
+            onClick={handleTest}
+          >
+            Send test
+          </button>
+        </div>
+
+        <div className="notification-group">
+          <h3>Quiet hours</h3>
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.quietHours !== null}
+              onChange={e => update({ quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}
+            />
+            Mute notifications
+          </label>
+          {settings.quietHours && (
+            <div className="quiet-hours">
+              <select
+                aria-label="Quiet hours start"
+                value={settings.quietHours.start}
+                onChange={e => update({ quietHours: { ...settings.quietHours!, start: Number(e.target.value) } })}
+              >
+                {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+              </select>
+              to
+              <select
+                aria-label="Quiet hours end"
+                value={settings.quietHours.end}
+                onChange={e => update({ quietHours: { ...settings.quietHours!, end: Number(e.target.value) } })}
+              >
+                {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="notification-group">
+          <h3>Zones</h3>
+          {zoneList.map(zone => (
+            <label key={zone.id}>
+              <input
+                type="checkbox"
+                checked={isSubscribed(zone.id)}
+                onChange={e => handleZoneChange(zone.id, e.target.checked)}
+              />
+              {zone.name}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
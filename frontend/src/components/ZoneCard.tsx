@@ -1,27 +1,34 @@
 import { useMemo } from 'react';
 import type { EnergyReading, Anomaly } from '../types';
-import { getAnomalyIcon } from '../utils/anomalyDetection';
+import { formatAnomalyValue, formatDuration, getAnomalyIcon } from '../utils/anomalyDisplay';
+import { formatCost, type ZoneCost } from '../utils/energyCost';
 import './ZoneCard.css';
 
 interface ZoneCardProps {
   reading: EnergyReading;
   anomalies: Anomaly[];
+  staleForMs?: number; // Set when the zone has stopped reporting
+  cost?: ZoneCost;
 }
 
-export function ZoneCard({ reading, anomalies }: ZoneCardProps) {
-  // Find most recent anomaly for this zone (within last 5 seconds)
+export function ZoneCard({ reading, anomalies, staleForMs, cost }: ZoneCardProps) {
+  // Find the active incident for this zone (critical first, then most recent)
   const recentAnomaly = useMemo(() => {
-    const fiveSecondsAgo = Date.now() - 5000;
     return anomalies
-      .filter(a => a.zoneId === reading.zoneId)
-      .filter(a => new Date(a.timestamp).getTime() > fiveSecondsAgo)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+      .filter(a => a.zoneId === reading.zoneId && a.status === 'active')
+      .sort((a, b) => {
+        if (a.severity !== b.severity) return a.severity === 'critical' ? -1 : 1;
+        return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+      })[0];
   }, [anomalies, reading.zoneId]);
 
   const hasAnomaly = !!recentAnomaly;
-  const cardClass = hasAnomaly
-    ? `zone-card zone-card-${recentAnomaly.severity}`
-    : 'zone-card';
+  const isStale = staleForMs !== undefined;
+  const cardClass = [
+    'zone-card',
+    hasAnomaly ? `zone-card-${recentAnomaly.severity}` : '',
+    isStale ? 'zone-card-stale' : '',
+  ].filter(Boolean).join(' ');
 
   return (
     <div className={cardClass}>
@@ -37,6 +44,13 @@ export function ZoneCard({ reading, anomalies }: ZoneCardProps) {
       </div>
       
       <div className="zone-content">
+        {/* Last values are kept on screen, so flag them as out of date */}
+        {isStale && (
+          <div className="stale-notice">
+            Stale · no data for {formatDuration(staleForMs)}
+          </div>
+        )}
+
         {/* Main energy reading */}
         <div className="energy-value">
           <span className="value">{reading.energyKw.toFixed(1)}</span>
@@ -46,7 +60,8 @@ export function ZoneCard({ reading, anomalies }: ZoneCardProps) {
         {/* Anomaly warning */}
         {hasAnomaly && (
           <div className={`anomaly-warning anomaly-${recentAnomaly.severity}`}>
-            <strong>{recentAnomaly.type.toUpperCase()}:</strong> {recentAnomaly.value.toFixed(1)} kW
+            <strong>{recentAnomaly.type.toUpperCase()}:</strong> peak {formatAnomalyValue(recentAnomaly, recentAnomaly.peakValue)}
+            {' '}for {formatDuration(recentAnomaly.durationMs)}
           </div>
         )}
 
@@ -60,6 +75,15 @@ export function ZoneCard({ reading, anomalies }: ZoneCardProps) {
             <span className="icon">⚙️</span>
             <span>{reading.equipmentCount} units</span>
           </div>
+          {cost && (
+            <div
+              className="detail"
+              title={`${cost.todayKwh.toFixed(0)} kWh today, now ${formatCost(cost.currentRate)}/kWh`}
+            >
+              <span className="icon">💰</span>
+              <span>{formatCost(cost.todayCost)} today</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
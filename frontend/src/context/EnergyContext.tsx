@@ -1,75 +1,259 @@
-import { createContext, useContext, useState, useCallback, useRef } from 'react';
+import { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import type { ReactNode } from 'react';
-import type { EnergyReading, Anomaly, ConnectionStatus } from '../types';
+import type { EnergyReading, Anomaly, ConnectionStatus, TariffConfig, TriageUpdate, ZoneConfig } from '../types';
 import { useWebSocket } from '../hooks/useWebSocket';
-import { detectAnomaly } from '../utils/anomalyDetection';
+import { useZonesConfig } from '../hooks/useZonesConfig';
+import { useHistoricalData } from '../hooks/useHistoricalData';
+import { useEnergyCosts } from '../hooks/useEnergyCosts';
+import { useTariffConfig } from '../hooks/useTariffConfig';
+import { useAnomalyTriage } from '../hooks/useAnomalyTriage';
+import { useAlertRules } from '../hooks/useAlertRules';
+import { useAnomalyNotifications } from '../hooks/useAnomalyNotifications';
+import type { BaselineModel } from '../../../shared/baselineModel';
+import type { HistoricalBaseline } from '../utils/historicalData';
+import { updateIncidents, upsertIncident, trimIncidents } from '../../../shared/anomalyLifecycle';
+import { groupByZone, mergeReadings } from '../utils/readingBuffer';
+import { createStalenessTracker } from '../../../shared/sensorStaleness';
+import type { PlantCost } from '../utils/energyCost';
+import { createDemandMeter, type DemandSnapshot } from '../utils/peakDemand';
+import { loadRuleIncidents, saveRuleIncidents, type AlertRule } from '../utils/alertRules';
+import { createRuleEngine } from '../utils/ruleEngine';
+import type { NotificationSettings } from '../utils/notifications';
 
 const MAX_READINGS_PER_ZONE = 1500; // Keep last 1500 points (supports 1000-point chart with buffer)
-const MAX_ANOMALIES = 50; // Keep last 50 anomalies
+const MAX_ANOMALIES = 50; // Keep last 50 incidents (active incidents are never dropped)
+const STALENESS_CHECK_INTERVAL_MS = 1000;
 
 interface EnergyContextType {
+  zones: Map<string, ZoneConfig>;
+  zonesError: string | null;
+  historicalReadings: EnergyReading[];
+  baselines: Map<string, HistoricalBaseline>;
+  baselineModel: BaselineModel | null;
+  historicalLoading: boolean;
+  historicalError: string | null;
   latestReadings: Map<string, EnergyReading>;
   readings: Map<string, EnergyReading[]>;
-  anomalies: Anomaly[];
+  anomalies: Anomaly[]; // Incidents from the server plus this browser's alert rules, oldest first
+  operatorName: string;
+  setOperatorName: (name: string) => void;
+  acknowledgeAnomaly: (anomaly: Anomaly) => void;
+  updateTriage: (anomaly: Anomaly, changes: TriageUpdate) => void; // Saved with the incident on the server
+  triageError: string | null;
+  alertRules: AlertRule[]; // User-defined alert rules (persisted)
+  saveAlertRule: (rule: AlertRule) => void;
+  removeAlertRule: (id: string) => void;
+  setAlertRuleEnabled: (id: string, enabled: boolean) => void;
+  notificationSettings: NotificationSettings; // Desktop/sound alerts for critical incidents (persisted)
+  setNotificationSettings: (settings: NotificationSettings) => void;
+  staleZones: Map<string, number>; // Zone id → ms since its last reading, for silent zones
+  tariff: TariffConfig | null; // null while loading or unavailable (flat zone rates apply)
+  tariffError: string | null;
+  costs: PlantCost | null; // Energy cost per zone and plant totals (null until readings arrive)
+  costHistoryError: string | null;
+  demand: DemandSnapshot | null; // Plant-wide 15-minute demand (null until readings arrive)
+  demandLimitKw: number | null; // Site demand limit from the tariff, if set
   connectionStatus: ConnectionStatus;
   reconnectAttempts: number;
+  maxReconnectAttempts: number; // Infinity when retrying forever
+  retryConnection: () => void;
+  latencyMs: number | null;
+  rejectedMessages: number;
 }
 
+const NO_STALE_ZONES = new Map<string, number>();
+
 const EnergyContext = createContext<EnergyContextType | undefined>(undefined);
 
 export function EnergyProvider({ children }: { children: ReactNode }) {
   const [latestReadings, setLatestReadings] = useState(new Map<string, EnergyReading>());
   const [readings, setReadings] = useState(new Map<string, EnergyReading[]>());
-  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
-  
-  // Track previous readings for pattern-based detection
+  const [serverAnomalies, setServerAnomalies] = useState<Anomaly[]>([]);
+  const [ruleAnomalies, setRuleAnomalies] = useState(loadRuleIncidents);
+  const [staleZones, setStaleZones] = useState(NO_STALE_ZONES);
+  const [demand, setDemand] = useState<DemandSnapshot | null>(null);
+  const { zones, error: zonesError, replaceZones } = useZonesConfig();
+  const {
+    readings: historicalReadings,
+    baselines,
+    model: baselineModel,
+    loading: historicalLoading,
+    error: historicalError,
+  } = useHistoricalData();
+
+  // Newest processed reading per zone, so replayed readings aren't fed to
+  // the rule engine or demand meter twice
   const previousReadingsRef = useRef(new Map<string, EnergyReading>());
 
-  // Handle incoming WebSocket messages
-  const handleMessage = useCallback((reading: EnergyReading) => {
-    // Get previous reading for this zone
-    const previousReading = previousReadingsRef.current.get(reading.zoneId);
-    
-    // Detect anomalies using hybrid approach
-    const anomaly = detectAnomaly(reading, previousReading);
-    if (anomaly) {
-      setAnomalies(prev => {
-        // Add new anomaly and keep last MAX_ANOMALIES
-        const updated = [...prev, anomaly];
-        return updated.slice(-MAX_ANOMALIES);
+  // User-defined alert rules are kept per browser, so they are evaluated here
+  // while the built-in detectors run on the server
+  const { rules: alertRules, saveRule, removeRule, setRuleEnabled } = useAlertRules();
+  const ruleEngineRef = useRef(createRuleEngine(alertRules));
+  useEffect(() => {
+    ruleEngineRef.current.setRules(alertRules);
+  }, [alertRules]);
+
+  // Rule incidents (and their triage) only exist in this browser, so they
+  // are kept with the rules
+  useEffect(() => {
+    saveRuleIncidents(ruleAnomalies);
+  }, [ruleAnomalies]);
+
+  // When each zone last reported, for stale cards (the server raises
+  // sensor-offline incidents)
+  const stalenessRef = useRef(createStalenessTracker());
+
+  // Plant-wide 15-minute average demand, for the site demand limit
+  const demandMeterRef = useRef(createDemandMeter());
+
+  // Evaluate alert rules and buffer a batch of readings: a single live
+  // reading, or the readings replayed (oldest first) after a reconnect
+  const processReadings = useCallback((batch: EnergyReading[]) => {
+    const processed: Array<{ reading: EnergyReading; detected: Anomaly[] }> = [];
+    const receivedAt = Date.now();
+
+    for (const reading of batch) {
+      // Get previous reading for this zone
+      const previousReading = previousReadingsRef.current.get(reading.zoneId);
+
+      // Stateful detectors expect time order, so a replayed reading that is
+      // not newer than the zone's last processed one only fills the chart
+      if (previousReading && reading.timestamp <= previousReading.timestamp) continue;
+
+      const detected = ruleEngineRef.current.update(reading);
+
+      processed.push({ reading, detected });
+      stalenessRef.current.record(reading, receivedAt);
+      demandMeterRef.current.update(reading);
+
+      // Update previous reading reference
+      previousReadingsRef.current.set(reading.zoneId, reading);
+    }
+
+    if (processed.length > 0) {
+      // Merge rule detections into incidents (also resolves incidents that went quiet)
+      setRuleAnomalies(prev => processed.reduce(
+        (incidents, { reading, detected }) =>
+          trimIncidents(updateIncidents(incidents, reading, detected), MAX_ANOMALIES),
+        prev
+      ));
+
+      // Update latest reading
+      setLatestReadings(prev => {
+        const updated = new Map(prev);
+        for (const { reading } of processed) {
+          updated.set(reading.zoneId, reading);
+        }
+        return updated;
       });
+
+      setDemand(demandMeterRef.current.getSnapshot());
     }
-    
-    // Update previous reading reference
-    previousReadingsRef.current.set(reading.zoneId, reading);
-    
-    // Update latest reading
-    setLatestReadings(prev => new Map(prev).set(reading.zoneId, reading));
-
-    // Update readings history with windowing
+
+    // Update readings history in timestamp order, de-duplicated and windowed
+    // to the last MAX_READINGS_PER_ZONE points
     setReadings(prev => {
       const updated = new Map(prev);
-      const zoneReadings = updated.get(reading.zoneId) || [];
-      const newReadings = [...zoneReadings, reading];
-      
-      // Keep only last MAX_READINGS_PER_ZONE points
-      if (newReadings.length > MAX_READINGS_PER_ZONE) {
-        newReadings.shift();
+      for (const [zoneId, zoneReadings] of groupByZone(batch)) {
+        updated.set(zoneId, mergeReadings(updated.get(zoneId) ?? [], zoneReadings, MAX_READINGS_PER_ZONE));
       }
-      
-      updated.set(reading.zoneId, newReadings);
       return updated;
     });
   }, []);
 
-  const { status, attempts } = useWebSocket(handleMessage);
+  // Handle incoming WebSocket messages
+  const handleMessage = useCallback((reading: EnergyReading) => {
+    processReadings([reading]);
+  }, [processReadings]);
+
+  // Incidents detected on the server, sent when they open or change (and
+  // the recent ones on connecting)
+  const handleAnomaly = useCallback((anomaly: Anomaly) => {
+    setServerAnomalies(prev => trimIncidents(upsertIncident(prev, anomaly), MAX_ANOMALIES));
+  }, []);
+
+  const { status, attempts, maxAttempts, retry, latencyMs, rejectedMessages } = useWebSocket(handleMessage, {
+    onBackfill: processReadings,
+    onAnomaly: handleAnomaly,
+    onConfigChanged: replaceZones,
+  });
+
+  const anomalies = useMemo(
+    () => [...serverAnomalies, ...ruleAnomalies].sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    [serverAnomalies, ruleAnomalies]
+  );
+
+  // Rule incidents keep extending while a triage change is applied, so only
+  // their triage is replaced
+  const handleTriageUpdated = useCallback((anomaly: Anomaly) => {
+    if (anomaly.type === 'rule') {
+      setRuleAnomalies(prev => prev.map(a => (a.id === anomaly.id ? { ...a, triage: anomaly.triage } : a)));
+    } else {
+      handleAnomaly(anomaly);
+    }
+  }, [handleAnomaly]);
+
+  const {
+    operatorName,
+    setOperatorName,
+    acknowledge,
+    updateTriage,
+    error: triageError,
+  } = useAnomalyTriage(handleTriageUpdated);
+  const { settings: notificationSettings, setSettings: setNotificationSettings } = useAnomalyNotifications(anomalies);
+  const { tariff, error: tariffError } = useTariffConfig();
+  const { costs, historyError: costHistoryError } = useEnergyCosts(zones, readings, baselineModel, tariff);
+
+  // Watch for zones that stop reporting while the connection is up (while
+  // disconnected every zone is silent, which the connection status shows)
+  useEffect(() => {
+    if (status !== 'CONNECTED') return;
+
+    const tracker = stalenessRef.current;
+    tracker.reset(Date.now());
+
+    const timer = window.setInterval(() => {
+      setStaleZones(tracker.getStaleZones(Date.now()));
+    }, STALENESS_CHECK_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [status]);
 
   const value: EnergyContextType = {
+    zones,
+    zonesError,
+    historicalReadings,
+    baselines,
+    baselineModel,
+    historicalLoading,
+    historicalError,
     latestReadings,
     readings,
     anomalies,
+    operatorName,
+    setOperatorName,
+    acknowledgeAnomaly: acknowledge,
+    updateTriage,
+    triageError,
+    alertRules,
+    saveAlertRule: saveRule,
+    removeAlertRule: removeRule,
+    setAlertRuleEnabled: setRuleEnabled,
+    notificationSettings,
+    setNotificationSettings,
+    staleZones: status === 'CONNECTED' ? staleZones : NO_STALE_ZONES,
+    tariff,
+    tariffError,
+    costs,
+    costHistoryError,
+    demand,
+    demandLimitKw: tariff?.demandCharge?.limitKw ?? null,
     connectionStatus: status,
     reconnectAttempts: attempts,
+    maxReconnectAttempts: maxAttempts,
+    retryConnection: retry,
+    latencyMs,
+    rejectedMessages,
   };
 
   return <EnergyContext.Provider value={value}>{children}</EnergyContext.Provider>;
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import {
+  aggregatesToBaselines,
+  loadAggregates,
+  type HistoricalBaseline,
+} from '../utils/historicalData';
+
+/**
+ * Custom hook to load per-zone aggregates for a time window
+ *
+ * Fetches whole-window statistics from the backend aggregates API whenever
+ * the window changes. Pass null bounds to skip fetching (e.g. when the
+ * window is not known yet or not needed).
+ *
+ * Bounds are epoch milliseconds so callers can pass freshly computed
+ * windows without refetching on every render.
+ *
+ * While a new window loads, the previous stats stay available (with the
+ * window they belong to) so periodic refreshes do not flash a loading state.
+ *
+ * Returns:
+ * - stats: Map of zone baselines for the loaded window
+ * - window: Window the stats were loaded for (null until the first load)
+ * - loading: Loading state
+ * - error: Error message if the request fails
+ */
+export function useAggregates(from: number | null, to: number | null) {
+  const [stats, setStats] = useState<Map<string, HistoricalBaseline>>(new Map());
+  const [window, setWindow] = useState<{ from: Date; to: Date } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (from === null || to === null) return;
+
+    let isMounted = true; // Ignore responses for windows that are no longer current
+
+    async function loadData(from: number, to: number) {
+      try {
+        setLoading(true);
+        const aggregates = await loadAggregates({ from: new Date(from), to: new Date(to) });
+        if (!isMounted) return;
+
+        setStats(aggregatesToBaselines(aggregates));
+        setWindow({ from: new Date(from), to: new Date(to) });
+        setError(null);
+      } catch (err) {
+        if (!isMounted) return;
+        setError('Failed to load historical aggregates');
+        console.error('Error loading historical aggregates:', err);
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadData(from, to);
+
+    return () => {
+      isMounted = false;
+    };
+  }, [from, to]);
+
+  return { stats, window, loading, error };
+}
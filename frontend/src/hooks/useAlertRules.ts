@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { loadRules, saveRules, type AlertRule } from '../utils/alertRules';
+
+/**
+ * Custom hook for the user-defined alert rules
+ *
+ * Loads saved rules from localStorage on mount and saves every change (see
+ * utils/alertRules.ts).
+ *
+ * Returns:
+ * - rules: Alert rules, in creation order
+ * - saveRule: Add a rule, or replace the rule with the same id
+ * - removeRule: Delete a rule
+ * - setRuleEnabled: Enable or disable a rule
+ */
+export function useAlertRules() {
+  const [rules, setRules] = useState(loadRules);
+
+  useEffect(() => {
+    saveRules(rules);
+  }, [rules]);
+
+  const saveRule = useCallback((rule: AlertRule) => {
+    setRules(prev => (prev.some(r => r.id === rule.id)
+      ? prev.map(r => (r.id === rule.id ? rule : r))
+      : [...prev, rule]));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  const setRuleEnabled = useCallback((id: string, enabled: boolean) => {
+    setRules(prev => prev.map(r => (r.id === id ? { ...r, enabled } : r)));
+  }, []);
+
+  return { rules, saveRule, removeRule, setRuleEnabled };
+}
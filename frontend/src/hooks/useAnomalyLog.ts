@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Anomaly } from '../types';
+import { loadAnomalyPage, type AnomalyLogQuery } from '../utils/anomalyLog';
+
+/**
+ * Custom hook to page through the stored anomaly log
+ *
+ * Fetches a page of incidents from the backend whenever the query or page
+ * changes (pass a memoized query so it is not refetched on every render).
+ * The previous page stays visible while the next one loads.
+ *
+ * Returns:
+ * - anomalies: Incidents on the current page, newest first
+ * - total: Number of incidents matching the query
+ * - loading: Loading state
+ * - error: Error message if the request fails
+ * - reload: Fetch the current page again (e.g. for new incidents)
+ */
+export function useAnomalyLog(query: AnomalyLogQuery, limit: number, offset: number) {
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true; // Ignore responses for queries that are no longer current
+
+    async function loadData() {
+      try {
+        setLoading(true);
+        const page = await loadAnomalyPage(query, limit, offset);
+        if (!isMounted) return;
+
+        setAnomalies(page.data);
+        setTotal(page.total);
+        setError(null);
+      } catch (err) {
+        if (!isMounted) return;
+        setError('Failed to load the anomaly log');
+        console.error('Error loading anomaly log:', err);
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadData();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [query, limit, offset, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { anomalies, total, loading, error, reload };
+}
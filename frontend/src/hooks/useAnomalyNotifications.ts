@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Anomaly } from '../types';
+import {
+  loadNotificationSettings,
+  playAlarm,
+  saveNotificationSettings,
+  shouldNotify,
+  showDesktopNotification,
+} from '../utils/notifications';
+
+/**
+ * Custom hook for desktop and sound notifications of critical anomalies
+ *
+ * Notifies once per incident, when it first appears as critical (new, or
+ * escalated from a warning). Incidents that became critical while
+ * notifications were off or muted are not notified later. Loads saved
+ * settings from localStorage on mount and saves every change (see
+ * utils/notifications.ts).
+ *
+ * Returns:
+ * - settings: Current notification settings
+ * - setSettings: Change (and remember) the settings
+ */
+export function useAnomalyNotifications(anomalies: Anomaly[]) {
+  const [settings, setSettings] = useState(loadNotificationSettings);
+  const notifiedRef = useRef(new Set<string>()); // Incident ids already seen as critical
+
+  useEffect(() => {
+    saveNotificationSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    const now = new Date();
+    const critical = anomalies.filter(anomaly => anomaly.severity === 'critical');
+    const toNotify = critical.filter(anomaly => anomaly.status === 'active'
+      && !notifiedRef.current.has(anomaly.id)
+      && shouldNotify(anomaly, settings, now));
+
+    // Only incidents still listed can come back, so forget the rest
+    notifiedRef.current = new Set(critical.map(anomaly => anomaly.id));
+
+    if (toNotify.length === 0) return;
+    if (settings.desktop) {
+      toNotify.forEach(showDesktopNotification);
+    }
+    if (settings.sound) {
+      playAlarm(); // Once per batch, however many incidents
+    }
+  }, [anomalies, settings]);
+
+  return { settings, setSettings };
+}
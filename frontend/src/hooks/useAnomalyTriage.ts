@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+import type { Anomaly, TriageUpdate } from '../types';
+import { applyTriageUpdate } from '../../../shared/anomalyTriage';
+import { loadOperatorName, saveAnomalyTriage, saveOperatorName } from '../utils/anomalyTriage';
+
+/**
+ * Custom hook for operator triage of anomaly incidents
+ *
+ * Changes to server incidents are saved to the server (see
+ * utils/anomalyTriage.ts), which also sends the updated incident to every
+ * other client. Rule incidents only exist in this browser, so their triage
+ * is applied here and saved with them (see utils/alertRules.ts). Either way
+ * the updated incident goes to onUpdated.
+ *
+ * Returns:
+ * - operatorName: Name recorded on acknowledgements
+ * - setOperatorName: Change (and remember) the operator name
+ * - acknowledge: Acknowledge an incident as the current operator
+ * - updateTriage: Change an incident's assignee, category or note
+ * - error: Error message if the last change could not be saved
+ */
+export function useAnomalyTriage(onUpdated: (anomaly: Anomaly) => void) {
+  const [operatorName, setOperatorNameState] = useState(loadOperatorName);
+  const [error, setError] = useState<string | null>(null);
+
+  const setOperatorName = useCallback((name: string) => {
+    setOperatorNameState(name);
+    saveOperatorName(name);
+  }, []);
+
+  const updateTriage = useCallback((anomaly: Anomaly, changes: TriageUpdate) => {
+    if (anomaly.type === 'rule') {
+      onUpdated({ ...anomaly, triage: applyTriageUpdate(anomaly.triage, changes, new Date()) });
+      return;
+    }
+
+    saveAnomalyTriage(anomaly.id, changes).then(
+      updated => {
+        setError(null);
+        onUpdated(updated);
+      },
+      err => {
+        setError('Failed to save triage');
+        console.error('Error saving anomaly triage:', err);
+      }
+    );
+  }, [onUpdated]);
+
+  const acknowledge = useCallback((anomaly: Anomaly) => {
+    if (anomaly.triage?.acknowledgedAt) return;
+    updateTriage(anomaly, { acknowledgedBy: operatorName.trim() || 'Operator' });
+  }, [updateTriage, operatorName]);
+
+  return { operatorName, setOperatorName, acknowledge, updateTriage, error };
+}
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { EnergyReading, ReadingAggregate, TariffConfig, ZoneConfig } from '../types';
+import type { BaselineModel } from '../../../shared/baselineModel';
+import { loadAggregates } from '../utils/historicalData';
+import {
+  COST_BUCKET,
+  calculateCosts,
+  createRateLookup,
+  getMonthlyPeakDemandKw,
+  startOfLocalDay,
+  summariseDailyHistory,
+  type PlantCost,
+  type TodaySeed,
+} from '../utils/energyCost';
+
+const SEED_REFRESH_INTERVAL_MS = 60000;
+
+/**
+ * Custom hook to track energy cost per zone and for the plant
+ *
+ * Loads the history in 15-minute aggregates once, and the energy used since
+ * local midnight from the backend: all of it on mount and at midnight, then
+ * every minute only the buckets from the newest one loaded (which may have
+ * been partial) on. Live readings in between are integrated on the client. Everything is priced with the tariff (see
+ * utils/energyCost.ts), or flat zone rates while it is unavailable.
+ *
+ * Returns:
+ * - costs: Cost per zone and plant totals (null until a reading arrives)
+ * - historyError: Error message if history could not be loaded
+ */
+export function useEnergyCosts(
+  zones: Map<string, ZoneConfig>,
+  readings: Map<string, EnergyReading[]>,
+  model: BaselineModel | null,
+  tariff: TariffConfig | null
+) {
+  const [seed, setSeed] = useState<TodaySeed | null>(null);
+  const [historyAggregates, setHistoryAggregates] = useState<ReadingAggregate[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // History from the backend
+  useEffect(() => {
+    let isMounted = true;
+
+    loadAggregates({ bucket: COST_BUCKET })
+      .then(aggregates => {
+        if (isMounted) setHistoryAggregates(aggregates);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        setHistoryError('Failed to load energy history');
+        console.error('Error loading energy history:', err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Energy since midnight from persisted live readings (covers time before
+  // the dashboard was opened)
+  useEffect(() => {
+    let isMounted = true;
+    let current: TodaySeed | null = null;
+
+    async function loadSeed() {
+      const now = Date.now();
+      const dayStart = startOfLocalDay(now);
+      const previous = current?.dayStart === dayStart ? current.aggregates : [];
+      const from = previous.reduce((latest, bucket) => Math.max(latest, Date.parse(bucket.start)), dayStart);
+      try {
+        const aggregates = await loadAggregates({
+          from: new Date(from),
+          to: new Date(now),
+          bucket: COST_BUCKET,
+        });
+        if (!isMounted) return;
+
+        current = {
+          dayStart,
+          end: now,
+          aggregates: [...previous.filter(bucket => Date.parse(bucket.start) < from), ...aggregates],
+        };
+        setSeed(current);
+      } catch (err) {
+        // Keep the previous seed; live readings still count
+        console.error('Error loading energy since midnight:', err);
+      }
+    }
+
+    loadSeed();
+    const timer = window.setInterval(loadSeed, SEED_REFRESH_INTERVAL_MS);
+
+    return () => {
+      isMounted = false;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  // Pricing depends on the tariff, so history is summarised here rather
+  // than when loaded
+  const history = useMemo(
+    () => summariseDailyHistory(historyAggregates, zones, createRateLookup(tariff)),
+    [historyAggregates, zones, tariff]
+  );
+
+  const monthlyPeakKw = useMemo(() => getMonthlyPeakDemandKw(historyAggregates), [historyAggregates]);
+
+  // Reference time is the newest live reading, so the calculation stays pure
+  const costs = useMemo((): PlantCost | null => {
+    let now = 0;
+    for (const zoneReadings of readings.values()) {
+      const latest = zoneReadings.at(-1);
+      if (latest) now = Math.max(now, new Date(latest.timestamp).getTime());
+    }
+    if (now === 0) return null;
+
+    return calculateCosts(zones, readings, now, seed, history, monthlyPeakKw, model, tariff);
+  }, [zones, readings, seed, history, monthlyPeakKw, model, tariff]);
+
+  return { costs, historyError };
+}
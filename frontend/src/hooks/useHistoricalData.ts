@@ -1,19 +1,32 @@
 import { useEffect, useState } from 'react';
-import { loadHistoricalData, calculateBaselines, type HistoricalBaseline } from '../utils/historicalData';
+import type { EnergyReading } from '../types';
+import {
+  aggregatesToBaselines,
+  loadAggregates,
+  loadHistoricalData,
+  type HistoricalBaseline,
+} from '../utils/historicalData';
+import { buildBaselineModel, type BaselineModel } from '../../../shared/baselineModel';
 
 /**
  * Custom hook to load and process historical data
  * 
- * Loads historical data from JSON file on mount and calculates
- * baseline statistics (avg, min, max) for each zone.
+ * Loads historical data from the backend API on mount, together with
+ * whole-period baseline statistics (avg, min, max) aggregated server-side
+ * from the raw readings, and builds the zone × day type × hour-of-day
+ * baseline model.
  * 
  * Returns:
- * - baselines: Map of zone baselines
+ * - readings: Historical readings (1-minute averages), sorted by timestamp
+ * - baselines: Map of zone baselines (whole period)
+ * - model: Hour-of-day baseline model (null until loaded)
  * - loading: Loading state
  * - error: Error message if load fails
  */
 export function useHistoricalData() {
+  const [readings, setReadings] = useState<EnergyReading[]>([]);
   const [baselines, setBaselines] = useState<Map<string, HistoricalBaseline>>(new Map());
+  const [model, setModel] = useState<BaselineModel | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -24,8 +37,11 @@ export function useHistoricalData() {
       try {
         setLoading(true);
         
-        // Fetch historical data from JSON file
-        const historicalData = await loadHistoricalData();
+        // Fetch historical data and per-zone aggregates from the backend API
+        const [historicalData, aggregates] = await Promise.all([
+          loadHistoricalData(),
+          loadAggregates(),
+        ]);
         
         // Check if component is still mounted before updating state
         if (!isMounted) return;
@@ -35,9 +51,9 @@ export function useHistoricalData() {
           return;
         }
 
-        // Calculate baseline statistics for each zone
-        const calculatedBaselines = calculateBaselines(historicalData);
-        setBaselines(calculatedBaselines);
+        setReadings(historicalData);
+        setBaselines(aggregatesToBaselines(aggregates));
+        setModel(buildBaselineModel(historicalData));
         setError(null);
       } catch (err) {
         if (!isMounted) return;
@@ -58,5 +74,5 @@ export function useHistoricalData() {
     };
   }, []); // Run once on mount
 
-  return { baselines, loading, error };
+  return { readings, baselines, model, loading, error };
 }
\ No newline at end of file
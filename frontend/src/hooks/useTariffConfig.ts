@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import type { TariffConfig } from '../types';
+import { loadTariffConfig } from '../utils/tariffConfig';
+
+/**
+ * Custom hook to load the time-of-use tariff
+ * 
+ * Loads tariff-config.json on mount.
+ * 
+ * Returns:
+ * - tariff: Tariff config (null while loading or if unavailable)
+ * - error: Error message if load or validation fails (flat rates are used)
+ */
+export function useTariffConfig() {
+  const [tariff, setTariff] = useState<TariffConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true; // Cleanup flag to prevent state updates after unmount
+
+    loadTariffConfig()
+      .then(config => {
+        if (!isMounted) return;
+        setTariff(config);
+        setError(null);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        setError('Failed to load tariff configuration, using flat zone rates');
+        console.error('Error loading tariff configuration:', err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []); // Run once on mount
+
+  return { tariff, error };
+}
@@ -1,24 +1,161 @@
-import { useEffect, useRef, useState } from 'react';
-import type { EnergyReading, ConnectionStatus } from '../types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Anomaly, EnergyReading, ConnectionStatus, ZoneConfig } from '../types';
+import {
+  DEFAULT_SUBSCRIPTION,
+  hasSubscribedFields,
+  parseServerMessage,
+  type ClientMessage,
+  type ReadingPayload,
+  type ResumeMessage,
+  type SubscribeMessage,
+  type Subscription,
+} from '../../../shared/protocol';
+import {
+  DEFAULT_RECONNECT_POLICY,
+  canRetry,
+  getReconnectDelay,
+  type ReconnectPolicy,
+} from '../utils/reconnectPolicy';
 
-const WS_URL = 'ws://localhost:8080';
-const MAX_RECONNECT = 5;
+// Mock server (or a real feed) URL, set VITE_WS_URL to point elsewhere
+const WS_URL = import.meta.env.VITE_WS_URL ?? 'ws://localhost:8080';
+const PING_INTERVAL_MS = 5000;
+const CONNECTION_TIMEOUT_MS = 15000; // Silence (including heartbeats) that means the connection is dead
 
-// Custom hook for WebSocket connection with auto-reconnect
-export function useWebSocket(onMessage: (reading: EnergyReading) => void) {
+// Handlers for server messages other than live readings
+export interface WebSocketHandlers {
+  onBackfill?: (readings: EnergyReading[]) => void;
+  onPartialReading?: (reading: ReadingPayload) => void; // Readings narrowed by a fields subscription
+  onAnomaly?: (anomaly: Anomaly) => void;
+  onConfigChanged?: (zones: ZoneConfig[]) => void;
+}
+
+// Connection settings, read once when the hook mounts
+export interface WebSocketOptions {
+  url?: string;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+// Custom hook for WebSocket connection with auto-reconnect.
+// Reconnects follow the reconnect policy (capped exponential backoff with
+// jitter, forever by default). Coming back online, returning to the tab or
+// calling retry() reconnects immediately and restarts the backoff.
+//
+// After a reconnect it asks the server to replay readings newer than the
+// last one received, delivered in a single batch to onBackfill.
+//
+// subscribe/unsubscribe narrow the feed to specific zones, fields or rate
+// (see shared/protocol.ts). Requests made while disconnected are sent once
+// connected, and the acknowledged subscription is restored on reconnect.
+//
+// Every message is validated against the versioned envelope before use;
+// invalid ones (and readings missing fields of the acknowledged
+// subscription) are dropped and counted in rejectedMessages. Readings with
+// every field go to onMessage/onBackfill; ones narrowed by a fields
+// subscription go to onPartialReading instead.
+//
+// While connected it pings the server to measure round-trip latency, and
+// reconnects if nothing (not even a heartbeat) arrives for CONNECTION_TIMEOUT_MS.
+export function useWebSocket(
+  onMessage: (reading: EnergyReading) => void,
+  handlers: WebSocketHandlers = {},
+  options: WebSocketOptions = {}
+) {
+  const [url] = useState(options.url ?? WS_URL);
+  const [policy] = useState<ReconnectPolicy>(() => ({ ...DEFAULT_RECONNECT_POLICY, ...options.reconnect }));
   const [status, setStatus] = useState<ConnectionStatus>('CONNECTING');
   const [attempts, setAttempts] = useState(0);
   const wsRef = useRef<WebSocket | null>(null);
   const timeoutRef = useRef<number | undefined>(undefined);
   const reconnectAttemptsRef = useRef(0);
+  const lastSeenRef = useRef<string | null>(null); // Newest reading timestamp received
+  const [subscription, setSubscription] = useState<Subscription>(DEFAULT_SUBSCRIPTION);
+  const subscriptionRef = useRef<Subscription>(DEFAULT_SUBSCRIPTION); // Last acknowledged by the server
+  const pendingRef = useRef<ClientMessage[]>([]); // Requests made while disconnected
+  const [rejectedMessages, setRejectedMessages] = useState(0);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const pingTimerRef = useRef<number | undefined>(undefined);
+  const lastMessageAtRef = useRef(0);
+  const retryRef = useRef<() => void>(() => {}); // Set while mounted
+
+  // Latest handlers for the (long-lived) message listener
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // Send a client message now, or once the connection opens
+  const send = useCallback((message: ClientMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    } else {
+      pendingRef.current.push(message);
+    }
+  }, []);
+
+  const subscribe = useCallback((request: Omit<SubscribeMessage, 'type'>) => {
+    send({ type: 'subscribe', ...request });
+  }, [send]);
+
+  const unsubscribe = useCallback((zones: string[]) => {
+    send({ type: 'unsubscribe', zones });
+  }, [send]);
+
+  // Reconnect now instead of waiting for the next scheduled attempt
+  const retry = useCallback(() => retryRef.current(), []);
 
   useEffect(() => {
     let isMounted = true;
 
+    const trackLastSeen = (reading: ReadingPayload) => {
+      if (!lastSeenRef.current || reading.timestamp > lastSeenRef.current) {
+        lastSeenRef.current = reading.timestamp;
+      }
+    };
+
+    const reject = (reason: string) => {
+      setRejectedMessages(count => count + 1);
+      console.warn('Rejected WebSocket message:', reason);
+    };
+
+    // Readings must carry every field of the acknowledged subscription...
+    const hasFields = (reading: ReadingPayload) =>
+      hasSubscribedFields(reading, subscriptionRef.current.fields);
+
+    // ...and are only typed as EnergyReading when they carry all of them
+    const isComplete = (reading: ReadingPayload): reading is EnergyReading =>
+      hasSubscribedFields(reading, '*');
+
+    const stopPinging = () => {
+      window.clearInterval(pingTimerRef.current);
+      pingTimerRef.current = undefined;
+    };
+
+    // Reconnect after the policy's backoff delay, unless out of attempts
+    const scheduleReconnect = () => {
+      stopPinging();
+      setStatus('DISCONNECTED');
+      setLatencyMs(null);
+
+      if (canRetry(reconnectAttemptsRef.current, policy)) {
+        const delay = getReconnectDelay(reconnectAttemptsRef.current, policy);
+        reconnectAttemptsRef.current++;
+        setAttempts(reconnectAttemptsRef.current);
+        
+        timeoutRef.current = window.setTimeout(() => {
+          if (isMounted) {
+            setStatus('CONNECTING');
+            connect();
+          }
+        }, delay);
+      }
+    };
+
     const connect = () => {
       if (!isMounted) return;
 
-      const ws = new WebSocket(WS_URL);
+      const ws = new WebSocket(url);
       
       // Connection established
       ws.onopen = () => {
@@ -26,15 +163,106 @@ export function useWebSocket(onMessage: (reading: EnergyReading) => void) {
         setStatus('CONNECTED');
         setAttempts(0);
         reconnectAttemptsRef.current = 0;
+        lastMessageAtRef.current = Date.now();
+
+        // Probe latency, and give up on a connection that has gone silent
+        // (a dead network may not close the socket for minutes)
+        stopPinging();
+        pingTimerRef.current = window.setInterval(() => {
+          if (Date.now() - lastMessageAtRef.current > CONNECTION_TIMEOUT_MS) {
+            console.warn('WebSocket connection timed out, reconnecting');
+            ws.onclose = null;
+            ws.close();
+            scheduleReconnect();
+            return;
+          }
+          ws.send(JSON.stringify({ type: 'ping', sentAt: Date.now() }));
+        }, PING_INTERVAL_MS);
+
+        // Restore the subscription (new connections start with everything),
+        // then send requests queued while disconnected
+        const { zones, fields, intervalMs } = subscriptionRef.current;
+        if (subscriptionRef.current !== DEFAULT_SUBSCRIPTION) {
+          ws.send(JSON.stringify({ type: 'subscribe', zones, fields, intervalMs }));
+        }
+        pendingRef.current.forEach(message => ws.send(JSON.stringify(message)));
+        pendingRef.current = [];
+
+        // Request readings missed while disconnected (after the subscription,
+        // so the replay only contains what it allows)
+        if (lastSeenRef.current) {
+          const resume: ResumeMessage = { type: 'resume', since: lastSeenRef.current };
+          ws.send(JSON.stringify(resume));
+        }
       };
 
       // Handle incoming messages
       ws.onmessage = (e) => {
         if (!isMounted) return;
-        try {
-          onMessage(JSON.parse(e.data));
-        } catch (err) {
-          console.error('Parse error:', err);
+        lastMessageAtRef.current = Date.now();
+
+        const result = parseServerMessage(e.data);
+        if (!result.ok) {
+          reject(result.error);
+          return;
+        }
+
+        const { message } = result;
+        switch (message.type) {
+          case 'reading':
+            if (!hasFields(message.payload)) {
+              reject('reading: missing subscribed fields');
+              return;
+            }
+            trackLastSeen(message.payload);
+            if (isComplete(message.payload)) {
+              onMessage(message.payload);
+            } else {
+              handlersRef.current.onPartialReading?.(message.payload);
+            }
+            return;
+
+          case 'backfill': {
+            const { since, readings, truncated } = message.payload;
+            if (!readings.every(hasFields)) {
+              reject('backfill: readings missing subscribed fields');
+              return;
+            }
+            if (truncated) {
+              console.warn(`Backfill since ${since} was truncated; older readings are missing`);
+            }
+            readings.forEach(trackLastSeen);
+            handlersRef.current.onBackfill?.(readings.filter(isComplete));
+            readings
+              .filter(reading => !isComplete(reading))
+              .forEach(reading => handlersRef.current.onPartialReading?.(reading));
+            return;
+          }
+
+          case 'subscribed':
+            subscriptionRef.current = message.payload;
+            setSubscription(message.payload);
+            return;
+
+          case 'anomaly':
+            handlersRef.current.onAnomaly?.(message.payload);
+            return;
+
+          case 'config-changed':
+            handlersRef.current.onConfigChanged?.(message.payload.zones);
+            return;
+
+          case 'error':
+            console.warn(`Server error (${message.payload.code}): ${message.payload.message}`);
+            return;
+
+          case 'pong':
+            setLatencyMs(Date.now() - message.payload.sentAt);
+            return;
+
+          case 'heartbeat':
+            // Only confirms the connection is alive
+            return;
         }
       };
 
@@ -43,33 +271,48 @@ export function useWebSocket(onMessage: (reading: EnergyReading) => void) {
         setStatus('ERROR');
       };
 
-      // Handle disconnection with exponential backoff
+      // Handle disconnection
       ws.onclose = () => {
         if (!isMounted) return;
-        setStatus('DISCONNECTED');
-        
-        if (reconnectAttemptsRef.current < MAX_RECONNECT) {
-          const delay = 1000 * Math.pow(2, reconnectAttemptsRef.current);
-          reconnectAttemptsRef.current++;
-          setAttempts(reconnectAttemptsRef.current);
-          
-          timeoutRef.current = window.setTimeout(() => {
-            if (isMounted) {
-              setStatus('CONNECTING');
-              connect();
-            }
-          }, delay);
-        }
+        scheduleReconnect();
       };
 
       wsRef.current = ws;
     };
 
+    // Connect immediately with a fresh backoff, unless already connected
+    // or connecting
+    const reconnectNow = () => {
+      const ws = wsRef.current;
+      if (!isMounted || ws?.readyState === WebSocket.OPEN || ws?.readyState === WebSocket.CONNECTING) {
+        return;
+      }
+
+      window.clearTimeout(timeoutRef.current);
+      reconnectAttemptsRef.current = 0;
+      setAttempts(0);
+      setStatus('CONNECTING');
+      connect();
+    };
+    retryRef.current = reconnectNow;
+
+    // The network coming back or the screen being looked at again are good
+    // moments to retry (browsers throttle timers in background tabs)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') reconnectNow();
+    };
+    window.addEventListener('online', reconnectNow);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     connect();
 
     // Cleanup on unmount
     return () => {
       isMounted = false;
+      retryRef.current = () => {};
+      window.removeEventListener('online', reconnectNow);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      stopPinging();
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
@@ -77,7 +320,17 @@ export function useWebSocket(onMessage: (reading: EnergyReading) => void) {
         wsRef.current.close();
       }
     };
-  }, []); // Empty dependency array - only run once!
+  }, [url, policy]); // Fixed for the hook's lifetime - only run once!
 
-  return { status, attempts };
+  return {
+    status,
+    attempts,
+    maxAttempts: policy.maxAttempts,
+    retry,
+    latencyMs,
+    subscription,
+    subscribe,
+    unsubscribe,
+    rejectedMessages,
+  };
 }
\ No newline at end of file
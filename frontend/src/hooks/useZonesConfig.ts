@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ZoneConfig } from '../types';
+import { loadZonesConfig } from '../utils/zonesConfig';
+
+/**
+ * Custom hook to load zone configuration
+ * 
+ * Loads zones-config.json on mount and indexes zones by id
+ * (Map iteration keeps the order defined in the config file).
+ * 
+ * Returns:
+ * - zones: Map of zone id to zone config
+ * - loading: Loading state
+ * - error: Error message if load or validation fails
+ * - replaceZones: Apply an already validated config (e.g. pushed by the server)
+ */
+export function useZonesConfig() {
+  const [zones, setZones] = useState<Map<string, ZoneConfig>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true; // Cleanup flag to prevent state updates after unmount
+
+    loadZonesConfig()
+      .then(config => {
+        if (!isMounted) return;
+        setZones(new Map(config.map(zone => [zone.id, zone])));
+        setError(null);
+      })
+      .catch(err => {
+        if (!isMounted) return;
+        setError('Failed to load zone configuration');
+        console.error('Error loading zone configuration:', err);
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []); // Run once on mount
+
+  const replaceZones = useCallback((config: ZoneConfig[]) => {
+    setZones(new Map(config.map(zone => [zone.id, zone])));
+    setError(null);
+  }, []);
+
+  return { zones, loading, error, replaceZones };
+}
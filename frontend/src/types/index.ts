@@ -10,35 +10,31 @@ export interface EnergyReading {
   equipmentCount: number;
 }
 
-// Zone metadata from config file
-export interface ZoneConfig {
-  id: string;
-  name: string;
-  description: string;
-  location: string;
-  expectedRange: { min: number; max: number };
-  operatingHours: string;
-  equipmentCount: number;
-  averageConsumption: number;
+// Time-bucketed statistics from the backend aggregates API
+export interface ReadingAggregate {
+  zoneId: string;
+  zoneName: string;
+  start: string; // Bucket start (or first reading for whole-window aggregates)
+  end: string; // Bucket end, exclusive (or last reading)
+  avgKw: number;
+  minKw: number;
+  maxKw: number;
+  avgTemperature: number;
+  count: number;
+  totalKwh: number;
 }
 
-// Anomaly detection types
-export type AnomalyType = 'spike' | 'drop' | 'flatline';
+// Zone metadata from config file (shared with the backend)
+export type { ZoneConfig, ZonePriority, OperatingHours } from '../../../shared/zones';
 
-// Anomaly severity levels
-export type AnomalySeverity = 'warning' | 'critical';
+// Time-of-use tariff from config file (shared with the backend)
+export type { TariffConfig, TariffBand, TariffPeriod, DemandCharge } from '../../../shared/tariff';
 
-// Anomaly detection result
-export interface Anomaly {
-  id: string; // Unique identifier
-  type: AnomalyType;
-  zoneId: string;
-  zoneName: string;
-  timestamp: string;
-  value: number; // Actual energy reading
-  threshold: number; // Expected threshold that was exceeded
-  severity: AnomalySeverity;
-}
+// Anomaly types (shared with the WebSocket protocol)
+export type { Anomaly, AnomalyType, AnomalySeverity, AnomalyStatus, AnomalyUnit } from '../../../shared/anomalies';
+
+// Operator follow-up on incidents (stored by the server with the incident)
+export type { AnomalyTriage, AnomalyCategory, TriageUpdate } from '../../../shared/anomalyTriage';
 
 // WebSocket connection state
 export type ConnectionStatus = 'CONNECTING' | 'CONNECTED' | 'DISCONNECTED' | 'ERROR';
\ No newline at end of file
@@ -0,0 +1,188 @@
+import type { Anomaly, AnomalySeverity, AnomalyUnit } from '../types';
+import { isAnomaly } from '../../../shared/protocol';
+
+/**
+ * Alert Rules: user-defined detection rules
+ *
+ * Rules complement the built-in detectors (see shared/anomalyDetection.ts),
+ * which run on the server and derive their thresholds from the zone config.
+ * Rules belong to the browser they were created in and are evaluated there.
+ * A rule applies to one zone or all zones and raises a 'rule' incident when
+ * all of its conditions hold:
+ * - conditions: energy (kW), temperature (°C) or rate of change (% from the
+ *   zone's previous reading, negative for falls) compared with a value
+ * - durationMs: how long the conditions must hold before the rule fires
+ * - timeOfDay: optional local hours the rule applies in (may wrap midnight)
+ * - hysteresis: once firing, each condition's value is relaxed by this
+ *   fraction before the rule clears, so a reading hovering at the threshold
+ *   doesn't flap
+ *
+ * Rules are edited in the dashboard and kept in localStorage; new rules start
+ * disabled so they can be tested against the historical data first (see
+ * ruleEngine.ts). The incidents they raise (with their triage) are kept
+ * there too, so they survive a reload.
+ */
+
+export type RuleMetric = 'energy' | 'temperature' | 'rate-of-change';
+
+export type RuleOperator = '>' | '<';
+
+export const RULE_METRICS: Array<{ metric: RuleMetric; label: string; unit: AnomalyUnit }> = [
+  { metric: 'energy', label: 'Energy', unit: 'kW' },
+  { metric: 'temperature', label: 'Temperature', unit: '°C' },
+  { metric: 'rate-of-change', label: 'Rate of change', unit: '%' },
+];
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  zoneId: string | null; // null applies to every zone
+  conditions: RuleCondition[]; // All must hold
+  durationMs: number;
+  timeOfDay: { start: number; end: number } | null; // Local hours, end exclusive
+  severity: AnomalySeverity;
+  hysteresis: number; // Fraction, e.g. 0.05
+}
+
+const RULES_STORAGE_KEY = 'energy-dashboard:alert-rules';
+const RULE_INCIDENTS_STORAGE_KEY = 'energy-dashboard:rule-incidents';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 24;
+}
+
+/**
+ * Validate a rule (from storage or the rule editor)
+ *
+ * Returns the problems found, empty when the rule is valid.
+ */
+export function validateRule(rule: unknown): string[] {
+  if (!isObject(rule)) return ['rule must be an object'];
+
+  const errors: string[] = [];
+  if (typeof rule.id !== 'string' || rule.id === '') errors.push('id must be a non-empty string');
+  if (typeof rule.name !== 'string' || rule.name.trim() === '') errors.push('Name is required');
+  if (typeof rule.enabled !== 'boolean') errors.push('enabled must be a boolean');
+  if (rule.zoneId !== null && typeof rule.zoneId !== 'string') errors.push('zoneId must be a string or null');
+
+  if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    errors.push('At least one condition is required');
+  } else {
+    rule.conditions.forEach((condition: unknown, index) => {
+      if (!isObject(condition)
+        || !RULE_METRICS.some(({ metric }) => metric === condition.metric)
+        || (condition.operator !== '>' && condition.operator !== '<')
+        || typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+        errors.push(`Condition ${index + 1} needs a metric, operator and number`);
+      }
+    });
+  }
+
+  if (typeof rule.durationMs !== 'number' || !(rule.durationMs >= 0)) {
+    errors.push('Duration must be zero or more');
+  }
+  if (rule.timeOfDay !== null
+    && (!isObject(rule.timeOfDay) || !isHour(rule.timeOfDay.start) || !isHour(rule.timeOfDay.end)
+      || rule.timeOfDay.start === rule.timeOfDay.end)) {
+    errors.push('Time of day needs distinct start and end hours (0-24)');
+  }
+  if (rule.severity !== 'warning' && rule.severity !== 'critical') {
+    errors.push('severity must be warning or critical');
+  }
+  if (typeof rule.hysteresis !== 'number' || !(rule.hysteresis >= 0 && rule.hysteresis < 1)) {
+    errors.push('Hysteresis must be between 0 and 100%');
+  }
+
+  return errors;
+}
+
+/**
+ * Check if a rule applies at the given local hour
+ */
+export function isRuleInTimeWindow(rule: AlertRule, hour: number): boolean {
+  if (!rule.timeOfDay) return true;
+
+  const { start, end } = rule.timeOfDay;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Describe a rule's conditions, e.g. "Energy > 450 kW and Rate of change > 20% for 30s"
+ */
+export function describeRule(rule: AlertRule): string {
+  const conditions = rule.conditions
+    .map(({ metric, operator, value }) => {
+      const { label, unit } = RULE_METRICS.find(m => m.metric === metric)!;
+      return `${label} ${operator} ${value}${unit === '%' ? '%' : ` ${unit}`}`;
+    })
+    .join(' and ');
+  const duration = rule.durationMs > 0 ? ` for ${rule.durationMs / 1000}s` : '';
+  const hours = rule.timeOfDay ? `, ${rule.timeOfDay.start}:00-${rule.timeOfDay.end}:00` : '';
+  return `${conditions}${duration}${hours}`;
+}
+
+/**
+ * Load saved rules (invalid entries are skipped)
+ */
+export function loadRules(): AlertRule[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(RULES_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+
+    return raw.filter((rule): rule is AlertRule => {
+      const errors = validateRule(rule);
+      if (errors.length > 0) console.warn('Skipping invalid alert rule:', errors);
+      return errors.length === 0;
+    });
+  } catch (err) {
+    console.error('Error loading alert rules:', err);
+    return [];
+  }
+}
+
+/**
+ * Save rules (failures, e.g. storage full or disabled, are logged only)
+ */
+export function saveRules(rules: AlertRule[]): void {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch (err) {
+    console.error('Error saving alert rules:', err);
+  }
+}
+
+/**
+ * Load saved rule incidents (invalid entries are skipped)
+ */
+export function loadRuleIncidents(): Anomaly[] {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(RULE_INCIDENTS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+
+    return raw.filter((incident): incident is Anomaly => isAnomaly(incident) && incident.type === 'rule');
+  } catch (err) {
+    console.error('Error loading rule incidents:', err);
+    return [];
+  }
+}
+
+export function saveRuleIncidents(incidents: Anomaly[]): void {
+  try {
+    localStorage.setItem(RULE_INCIDENTS_STORAGE_KEY, JSON.stringify(incidents));
+  } catch (err) {
+    console.error('Error saving rule incidents:', err);
+  }
+}
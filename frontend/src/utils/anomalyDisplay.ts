@@ -0,0 +1,113 @@
+import type { Anomaly, AnomalyUnit } from '../types';
+
+/**
+ * Anomaly Display: descriptions, icons, units and durations for incidents
+ *
+ * Incidents are detected by the mock server (see shared/anomalyDetection.ts);
+ * these helpers only format them for the alert list, zone cards and
+ * notifications.
+ */
+
+/**
+ * Helper to format a signed percentage change from a reference value
+ */
+function calculateChangePercent(value: number, reference: number): string {
+  const percent = reference === 0 ? 0 : ((value - reference) / reference) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(0)}%`;
+}
+
+/**
+ * Get the unit of an incident's value, threshold and peak
+ */
+export function getAnomalyUnit(anomaly: Anomaly): AnomalyUnit {
+  if (anomaly.type === 'rule') return anomaly.ruleUnit ?? 'kW';
+  return anomaly.type === 'temperature' || anomaly.type === 'decoupling' ? '°C' : 'kW';
+}
+
+/**
+ * Format a value in an incident's unit (e.g. "42.5 kW", "12.0%")
+ */
+export function formatAnomalyValue(anomaly: Anomaly, value: number): string {
+  const unit = getAnomalyUnit(anomaly);
+  return unit === '%' ? `${value.toFixed(1)}%` : `${value.toFixed(1)} ${unit}`;
+}
+
+/**
+ * Get human-readable anomaly description
+ */
+export function getAnomalyDescription(anomaly: Anomaly): string {
+  const { type, peakValue, threshold } = anomaly;
+  
+  switch (type) {
+    case 'spike':
+      return `Energy spiked to ${peakValue.toFixed(1)} kW (threshold: ${threshold.toFixed(1)} kW)`;
+    case 'drop':
+      return `Energy dropped to ${peakValue.toFixed(1)} kW (threshold: ${threshold.toFixed(1)} kW)`;
+    case 'flatline':
+      return `Energy flatlined at ${peakValue.toFixed(1)} kW`;
+    case 'out-of-hours':
+      return `Consuming ${peakValue.toFixed(1)} kW outside operating hours (expected below ${threshold.toFixed(1)} kW)`;
+    case 'drift': {
+      const direction = peakValue < threshold ? 'down' : 'up';
+      const change = calculateChangePercent(peakValue, threshold);
+      return `Energy drifting ${direction} from ${threshold.toFixed(1)} to ${peakValue.toFixed(1)} kW (${change})`;
+    }
+    case 'sensor-offline':
+      return `No data received (last reading ${peakValue.toFixed(1)} kW)`;
+    case 'temperature':
+      return peakValue > threshold
+        ? `Temperature reached ${peakValue.toFixed(1)}°C (limit: ${threshold.toFixed(1)}°C)`
+        : `Temperature fell to ${peakValue.toFixed(1)}°C (limit: ${threshold.toFixed(1)}°C)`;
+    case 'decoupling':
+      return `Temperature climbed from ${threshold.toFixed(1)} to ${peakValue.toFixed(1)}°C while energy held steady (possible cooling failure)`;
+    case 'rule':
+      return `Rule "${anomaly.ruleName ?? anomaly.ruleId}" triggered (peak ${formatAnomalyValue(anomaly, peakValue)}, threshold: ${formatAnomalyValue(anomaly, threshold)})`;
+    default:
+      return `Unusual reading: ${peakValue.toFixed(1)} kW`;
+  }
+}
+
+/**
+ * Get anomaly icon based on type and severity
+ */
+export function getAnomalyIcon(anomaly: Anomaly): string {
+  if (anomaly.severity === 'critical') {
+    return '🚨';
+  }
+  if (anomaly.type === 'flatline') {
+    return '➖';
+  }
+  if (anomaly.type === 'out-of-hours') {
+    return '🌙';
+  }
+  if (anomaly.type === 'sensor-offline') {
+    return '📡';
+  }
+  if (anomaly.type === 'rule') {
+    return '📏';
+  }
+  if (anomaly.type === 'temperature') {
+    return '🌡️';
+  }
+  if (anomaly.type === 'decoupling') {
+    return '🔥';
+  }
+  if (anomaly.type === 'drift') {
+    return anomaly.peakValue < anomaly.threshold ? '↘️' : '↗️';
+  }
+  return anomaly.type === 'spike' ? '⬆️' : '⬇️';
+}
+
+/**
+ * Format an incident duration for display (e.g. "45s", "12m 05s", "1h 20m")
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+}
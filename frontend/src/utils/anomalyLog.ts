@@ -0,0 +1,111 @@
+import type { Anomaly, AnomalySeverity, AnomalyType } from '../types';
+import { fetchAllPages, fetchPage, type ApiFilters, type ApiPage } from './api';
+import { getAnomalyUnit } from './anomalyDisplay';
+
+/**
+ * Anomaly Log: search and export of stored incidents
+ *
+ * The server keeps every incident it detects, with its triage, for
+ * ANOMALY_RETENTION_DAYS (GET /api/anomalies), far more than the recent
+ * incidents the dashboard holds. Zone, type, severity, date and note filters
+ * all run on the server.
+ */
+
+export interface AnomalyLogQuery extends ApiFilters {
+  types?: AnomalyType[]; // All types when omitted
+  severities?: AnomalySeverity[]; // All severities when omitted
+  search?: string; // Text in the triage note (ignoring case)
+}
+
+const ANOMALIES_PATH = '/api/anomalies';
+
+function queryParams(query: AnomalyLogQuery): Record<string, string | undefined> {
+  return {
+    type: query.types?.join(','),
+    severity: query.severities?.join(','),
+    search: query.search,
+  };
+}
+
+/**
+ * Load every incident matching a query, newest first
+ */
+export function loadAnomalyLog(query: AnomalyLogQuery): Promise<Anomaly[]> {
+  return fetchAllPages<Anomaly>(ANOMALIES_PATH, query, queryParams(query));
+}
+
+/**
+ * Load one page of incidents matching a query, newest first
+ */
+export function loadAnomalyPage(query: AnomalyLogQuery, limit: number, offset: number): Promise<ApiPage<Anomaly>> {
+  return fetchPage<Anomaly>(ANOMALIES_PATH, query, queryParams(query), limit, offset);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const CSV_COLUMNS = [
+  'id', 'zoneId', 'zoneName', 'type', 'severity', 'status', 'startTime', 'endTime', 'durationMs',
+  'readingCount', 'value', 'peakValue', 'threshold', 'unit',
+  'acknowledgedBy', 'acknowledgedAt', 'assignee', 'category', 'note',
+] as const;
+
+type CsvValue = string | number | null | undefined;
+
+/**
+ * Quote a CSV field when needed. Text starting with a formula character is
+ * prefixed with an apostrophe, so spreadsheets don't run notes as formulas.
+ */
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV file of incidents with their triage (one row per incident)
+ */
+export function anomaliesToCsv(anomalies: Anomaly[]): string {
+  const rows = anomalies.map(anomaly => {
+    const entry = anomaly.triage;
+    const row: Record<(typeof CSV_COLUMNS)[number], CsvValue> = {
+      ...anomaly,
+      unit: getAnomalyUnit(anomaly),
+      acknowledgedBy: entry?.acknowledgedBy,
+      acknowledgedAt: entry?.acknowledgedAt,
+      assignee: entry?.assignee,
+      category: entry?.category,
+      note: entry?.note,
+    };
+    return CSV_COLUMNS.map(column => csvField(row[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Build a JSON file of incidents, each with its triage (null if none)
+ */
+export function anomaliesToJson(anomalies: Anomaly[]): string {
+  return JSON.stringify(
+    anomalies.map(anomaly => ({ ...anomaly, triage: anomaly.triage ?? null })),
+    null,
+    2
+  );
+}
+
+/**
+ * Save text as a file through the browser's download
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Released once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,48 @@
+import type { Anomaly, AnomalySeverity, ZoneConfig, ZonePriority } from '../types';
+
+/**
+ * Anomaly Priority: rank incidents across zones
+ *
+ * Score = severity weight × zone priority weight. Severity weights are spaced
+ * so any critical incident outranks any warning, and zone priority orders
+ * incidents of the same severity (a critical Stamping Press spike scores 20,
+ * a critical Warehouse one 5). Ties go to active incidents, then the newest.
+ */
+
+const SEVERITY_WEIGHT: Record<AnomalySeverity, number> = {
+  critical: 5,
+  warning: 1,
+};
+
+const ZONE_PRIORITY_WEIGHT: Record<ZonePriority, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// Zones missing from the config (e.g. just removed) rank as medium
+const DEFAULT_ZONE_PRIORITY: ZonePriority = 'medium';
+
+/**
+ * Get the priority score of an incident (higher is more urgent)
+ */
+export function getAnomalyPriority(anomaly: Anomaly, zone: ZoneConfig | undefined): number {
+  return SEVERITY_WEIGHT[anomaly.severity] * ZONE_PRIORITY_WEIGHT[zone?.priority ?? DEFAULT_ZONE_PRIORITY];
+}
+
+/**
+ * Sort incidents by priority, most urgent first
+ *
+ * Returns a new array.
+ */
+export function sortByPriority(anomalies: Anomaly[], zones: Map<string, ZoneConfig>): Anomaly[] {
+  return anomalies
+    .map(anomaly => ({ anomaly, score: getAnomalyPriority(anomaly, zones.get(anomaly.zoneId)) }))
+    .sort((a, b) =>
+      b.score - a.score
+      || Number(b.anomaly.status === 'active') - Number(a.anomaly.status === 'active')
+      || b.anomaly.timestamp.localeCompare(a.anomaly.timestamp)
+    )
+    .map(({ anomaly }) => anomaly);
+}
@@ -0,0 +1,39 @@
+import type { Anomaly, TriageUpdate } from '../types';
+import { patchJson } from './api';
+
+/**
+ * Anomaly Triage: saving operator follow-up on incidents
+ *
+ * Triage is stored by the server with each incident (see
+ * shared/anomalyTriage.ts), so every operator sees the same acknowledgements,
+ * assignees and notes. The operator name used for acknowledgements belongs
+ * to this browser and is kept in localStorage.
+ */
+
+const OPERATOR_STORAGE_KEY = 'energy-dashboard:operator';
+
+/**
+ * Save a change to an incident's triage, returning the updated incident
+ */
+export function saveAnomalyTriage(id: string, update: TriageUpdate): Promise<Anomaly> {
+  return patchJson<Anomaly>(`/api/anomalies/${encodeURIComponent(id)}`, update);
+}
+
+/**
+ * Load the operator name used for acknowledgements
+ */
+export function loadOperatorName(): string {
+  try {
+    return localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveOperatorName(name: string): void {
+  try {
+    localStorage.setItem(OPERATOR_STORAGE_KEY, name);
+  } catch (err) {
+    console.error('Error saving operator name:', err);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Backend REST API client (served by the mock server alongside the
+ * WebSocket, see backend/src/api.ts)
+ *
+ * List endpoints share zone/from/to/limit/offset filters and respond with
+ * { data, total, limit, offset, nextOffset }.
+ */
+
+const API_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:8080';
+
+// Largest page the API returns
+export const MAX_PAGE_SIZE = 50000;
+
+export interface ApiFilters {
+  zoneIds?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface ApiPage<T> {
+  data: T[];
+  total: number;
+  nextOffset: number | null;
+}
+
+/**
+ * Fetch one page of an API list endpoint (empty extra params are left out)
+ */
+export async function fetchPage<T>(
+  path: string,
+  filters: ApiFilters,
+  extraParams: Record<string, string | undefined>,
+  limit: number,
+  offset: number
+): Promise<ApiPage<T>> {
+  const params = new URLSearchParams({
+    limit: String(limit),
+    offset: String(offset),
+  });
+  if (filters.zoneIds?.length) params.set('zone', filters.zoneIds.join(','));
+  if (filters.from) params.set('from', filters.from.toISOString());
+  if (filters.to) params.set('to', filters.to.toISOString());
+  for (const [key, value] of Object.entries(extraParams)) {
+    if (value) params.set(key, value);
+  }
+
+  const response = await fetch(`${API_URL}${path}?${params}`);
+  if (!response.ok) {
+    throw new Error(`Request to ${path} failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch every page of an API list endpoint
+ */
+export async function fetchAllPages<T>(
+  path: string,
+  filters: ApiFilters,
+  extraParams: Record<string, string | undefined>
+): Promise<T[]> {
+  const pages: T[][] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const page: ApiPage<T> = await fetchPage<T>(path, filters, extraParams, MAX_PAGE_SIZE, offset);
+    pages.push(page.data);
+    offset = page.nextOffset;
+  }
+
+  return pages.flat();
+}
+
+/**
+ * Send a JSON PATCH request and return the response body
+ */
+export async function patchJson<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${path} failed: ${response.statusText}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,391 @@
+import type { EnergyReading, ReadingAggregate, TariffBand, TariffConfig, ZoneConfig } from '../types';
+import { getTariffBand } from '../../../shared/tariff';
+import { getHourlyBaseline, type BaselineModel } from '../../../shared/baselineModel';
+
+/**
+ * Energy Cost: turn kW readings into kWh and money
+ *
+ * Energy is integrated from readings by holding each reading's load until the
+ * zone's next reading, like the backend aggregates (gaps longer than
+ * MAX_SAMPLE_INTERVAL_MS count as missing data, not as constant load).
+ *
+ * Energy is priced with the time-of-use tariff (see shared/tariff.ts) at the
+ * time it was used; without a tariff each zone's flat costPerKwh applies.
+ * Backend aggregates come in 15-minute buckets, priced at the bucket start
+ * (tariff bands change on the hour), which also gives the 15-minute average
+ * plant demand the demand charge is based on.
+ *
+ * "Today" is the local calendar day. Its energy so far comes from the backend
+ * aggregates since midnight plus live readings newer than those, and is
+ * projected to the end of the day from the hour-of-day baseline model.
+ * History, grouped by local day, gives average daily and weekly cost per
+ * zone, which also project the month (each day estimated from its weekday).
+ * The demand charge applies to the current calendar month's peak.
+ */
+
+const MAX_SAMPLE_INTERVAL_MS = 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const DAYS_PER_WEEK = 7;
+
+// Bucket size of the aggregates used for pricing and demand
+export const COST_BUCKET = '15m';
+const COST_BUCKET_HOURS = 0.25;
+
+// Currency for cost display (tariff and costPerKwh rates use it)
+const CURRENCY = import.meta.env.VITE_CURRENCY ?? 'USD';
+
+// Rate per kWh for a zone at a time
+type RateLookup = (zone: ZoneConfig, time: number) => number;
+
+// Energy and its cost
+export interface Usage {
+  kwh: number;
+  cost: number;
+}
+
+// Energy since local midnight according to the backend
+export interface TodaySeed {
+  dayStart: number; // Local midnight the seed was loaded for (epoch ms)
+  end: number; // Time the seed covers up to (epoch ms)
+  aggregates: ReadingAggregate[]; // 15-minute buckets
+}
+
+// Daily usage per zone from the historical dataset
+export interface DailyHistory {
+  avgDaily: Usage;
+  lastWeek: Usage; // Last 7 days of the dataset
+  byWeekday: Array<Usage | null>; // Average per weekday (0 = Sunday), null without data
+}
+
+export interface ZoneCost {
+  zoneId: string;
+  zoneName: string;
+  currentRate: number; // Rate per kWh in effect now
+  todayKwh: number;
+  todayCost: number;
+  projectedDayKwh: number;
+  projectedDayCost: number;
+  projectedMonthCost: number; // Energy only (the demand charge is plant-wide)
+  avgDailyCost: number | null; // null without history
+  lastWeekCost: number | null;
+}
+
+export interface DemandChargeEstimate {
+  peakKw: number; // Highest 15-minute plant demand this month (today or in history)
+  cost: number;
+}
+
+export interface PlantCost {
+  zones: Map<string, ZoneCost>;
+  todayCost: number;
+  projectedDayCost: number;
+  projectedMonthCost: number; // Including the demand charge
+  demandCharge: DemandChargeEstimate | null; // null without a demand charge in the tariff
+  activeBand: TariffBand | null; // null without a tariff
+  avgDailyCost: number | null;
+  lastWeekCost: number | null;
+  asOf: number; // Reference time (newest reading)
+}
+
+/**
+ * Get local midnight for a time
+ */
+export function startOfLocalDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Get local midnight on the first day of the month containing a time
+ */
+export function startOfLocalMonth(time: number): number {
+  const date = new Date(startOfLocalDay(time));
+  date.setDate(1);
+  return date.getTime();
+}
+
+/**
+ * Build the rate lookup for a tariff (or flat per-zone rates without one)
+ */
+export function createRateLookup(tariff: TariffConfig | null): RateLookup {
+  if (!tariff) return zone => zone.costPerKwh;
+  return (_zone, time) => getTariffBand(tariff, new Date(time)).ratePerKwh;
+}
+
+/**
+ * Integrate energy and cost from time-sorted readings of one zone, counting
+ * only time after `from`
+ */
+export function integrateUsage(
+  readings: EnergyReading[],
+  from: number,
+  rateAt: (time: number) => number
+): Usage {
+  let kwh = 0;
+  let cost = 0;
+
+  for (let i = 0; i < readings.length - 1; i++) {
+    const start = Math.max(new Date(readings[i].timestamp).getTime(), from);
+    const next = new Date(readings[i + 1].timestamp).getTime();
+    if (next <= start) continue;
+
+    const intervalKwh = readings[i].energyKw * Math.min(next - start, MAX_SAMPLE_INTERVAL_MS) / MS_PER_HOUR;
+    kwh += intervalKwh;
+    cost += intervalKwh * rateAt(start);
+  }
+
+  return { kwh, cost };
+}
+
+/**
+ * Estimate the energy a zone will use from `now` until local midnight, using
+ * the typical load for each remaining hour (or `fallbackKw` without a model)
+ */
+export function projectRemainingUsage(
+  zoneId: string,
+  now: number,
+  model: BaselineModel | null,
+  fallbackKw: number,
+  rateAt: (time: number) => number
+): Usage {
+  const dayEnd = startOfLocalDay(now) + 24 * MS_PER_HOUR;
+  let kwh = 0;
+  let cost = 0;
+
+  for (let time = now; time < dayEnd;) {
+    const hourEnd = Math.min(Math.floor(time / MS_PER_HOUR) * MS_PER_HOUR + MS_PER_HOUR, dayEnd);
+    const kw = (model && getHourlyBaseline(model, zoneId, new Date(time))?.mean) ?? fallbackKw;
+    const hourKwh = kw * (hourEnd - time) / MS_PER_HOUR;
+    kwh += hourKwh;
+    cost += hourKwh * rateAt(time);
+    time = hourEnd;
+  }
+
+  return { kwh, cost };
+}
+
+/**
+ * Sum priced usage of aggregates per zone
+ */
+function priceAggregates(
+  aggregates: ReadingAggregate[],
+  zones: Map<string, ZoneConfig>,
+  rateLookup: RateLookup
+): Map<string, Usage> {
+  const usage = new Map<string, Usage>();
+
+  for (const aggregate of aggregates) {
+    const zone = zones.get(aggregate.zoneId);
+    if (!zone) continue;
+
+    const total = usage.get(aggregate.zoneId) ?? { kwh: 0, cost: 0 };
+    total.kwh += aggregate.totalKwh;
+    total.cost += aggregate.totalKwh * rateLookup(zone, new Date(aggregate.start).getTime());
+    usage.set(aggregate.zoneId, total);
+  }
+
+  return usage;
+}
+
+/**
+ * Get the plant-wide average demand of each bucket, keyed by bucket start
+ */
+function getBucketDemandKw(aggregates: ReadingAggregate[]): Map<string, number> {
+  const demand = new Map<string, number>();
+  for (const aggregate of aggregates) {
+    demand.set(aggregate.start, (demand.get(aggregate.start) ?? 0) + aggregate.totalKwh / COST_BUCKET_HOURS);
+  }
+  return demand;
+}
+
+/**
+ * Get the highest plant-wide average demand of any bucket
+ */
+export function getPeakDemandKw(aggregates: ReadingAggregate[]): number {
+  return Math.max(0, ...getBucketDemandKw(aggregates).values());
+}
+
+/**
+ * Get the highest plant-wide average demand per local calendar month, keyed
+ * by the month's start (see startOfLocalMonth)
+ */
+export function getMonthlyPeakDemandKw(aggregates: ReadingAggregate[]): Map<number, number> {
+  const peaks = new Map<number, number>();
+  for (const [start, kw] of getBucketDemandKw(aggregates)) {
+    const month = startOfLocalMonth(new Date(start).getTime());
+    peaks.set(month, Math.max(peaks.get(month) ?? 0, kw));
+  }
+  return peaks;
+}
+
+/**
+ * Summarise 15-minute aggregates into priced daily history per zone
+ */
+export function summariseDailyHistory(
+  aggregates: ReadingAggregate[],
+  zones: Map<string, ZoneConfig>,
+  rateLookup: RateLookup
+): Map<string, DailyHistory> {
+  // Group buckets by zone and local day (keyed by local midnight), like
+  // today's cost
+  const days = new Map<string, Map<number, ReadingAggregate[]>>();
+  for (const aggregate of aggregates) {
+    const zoneDays = days.get(aggregate.zoneId) ?? new Map<number, ReadingAggregate[]>();
+    const day = startOfLocalDay(new Date(aggregate.start).getTime());
+    zoneDays.set(day, [...(zoneDays.get(day) ?? []), aggregate]);
+    days.set(aggregate.zoneId, zoneDays);
+  }
+
+  const history = new Map<string, DailyHistory>();
+  for (const [zoneId, zoneDays] of days) {
+    const daily = Array.from(zoneDays.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([day, buckets]) => ({
+        weekday: new Date(day).getDay(),
+        usage: priceAggregates(buckets, zones, rateLookup).get(zoneId) ?? { kwh: 0, cost: 0 },
+      }));
+
+    const sum = (entries: typeof daily) => entries.reduce(
+      (total, { usage }) => ({ kwh: total.kwh + usage.kwh, cost: total.cost + usage.cost }),
+      { kwh: 0, cost: 0 }
+    );
+    const average = (entries: typeof daily): Usage | null => {
+      if (entries.length === 0) return null;
+      const total = sum(entries);
+      return { kwh: total.kwh / entries.length, cost: total.cost / entries.length };
+    };
+
+    history.set(zoneId, {
+      avgDaily: average(daily)!,
+      lastWeek: sum(daily.slice(-DAYS_PER_WEEK)),
+      byWeekday: Array.from({ length: DAYS_PER_WEEK }, (_, weekday) =>
+        average(daily.filter(day => day.weekday === weekday))
+      ),
+    });
+  }
+
+  return history;
+}
+
+/**
+ * Project a zone's energy cost for the calendar month containing `now`
+ *
+ * Today uses its own projection; every other day the historical average
+ * for its weekday (falling back to the overall daily average, then today's
+ * projection).
+ */
+function projectMonthCost(now: number, projectedDayCost: number, history: DailyHistory | undefined): number {
+  const today = new Date(startOfLocalDay(now));
+  const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+  let cost = 0;
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (day === today.getDate()) {
+      cost += projectedDayCost;
+      continue;
+    }
+    const weekday = new Date(today.getFullYear(), today.getMonth(), day).getDay();
+    cost += history?.byWeekday[weekday]?.cost ?? history?.avgDaily.cost ?? projectedDayCost;
+  }
+
+  return cost;
+}
+
+/**
+ * Sum optional values, returning null if any is missing
+ */
+function sumOrNull(values: Array<number | null>): number | null {
+  let total = 0;
+  for (const value of values) {
+    if (value === null) return null;
+    total += value;
+  }
+  return total;
+}
+
+/**
+ * Calculate energy cost per zone and for the whole plant
+ *
+ * `now` is the reference time (the newest live reading), keeping the
+ * calculation pure. A seed for a different day than `now` is ignored, so
+ * today restarts from live readings at midnight.
+ */
+export function calculateCosts(
+  zones: Map<string, ZoneConfig>,
+  readings: Map<string, EnergyReading[]>,
+  now: number,
+  seed: TodaySeed | null,
+  history: Map<string, DailyHistory>,
+  monthlyPeakKw: Map<number, number>,
+  model: BaselineModel | null,
+  tariff: TariffConfig | null
+): PlantCost {
+  const rateLookup = createRateLookup(tariff);
+  const dayStart = startOfLocalDay(now);
+  const todaySeed = seed?.dayStart === dayStart ? seed : null;
+  const seeded = todaySeed ? priceAggregates(todaySeed.aggregates, zones, rateLookup) : new Map<string, Usage>();
+  const costs = new Map<string, ZoneCost>();
+
+  for (const zone of zones.values()) {
+    const zoneReadings = readings.get(zone.id) ?? [];
+    const rateAt = (time: number) => rateLookup(zone, time);
+
+    // Backend totals up to the seed's end, then live readings after that
+    const live = integrateUsage(zoneReadings, todaySeed?.end ?? dayStart, rateAt);
+    const today = {
+      kwh: (seeded.get(zone.id)?.kwh ?? 0) + live.kwh,
+      cost: (seeded.get(zone.id)?.cost ?? 0) + live.cost,
+    };
+
+    const latestKw = zoneReadings.at(-1)?.energyKw ?? 0;
+    const remaining = projectRemainingUsage(zone.id, now, model, latestKw, rateAt);
+    const projectedDayCost = today.cost + remaining.cost;
+    const zoneHistory = history.get(zone.id);
+
+    costs.set(zone.id, {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      currentRate: rateAt(now),
+      todayKwh: today.kwh,
+      todayCost: today.cost,
+      projectedDayKwh: today.kwh + remaining.kwh,
+      projectedDayCost,
+      projectedMonthCost: projectMonthCost(now, projectedDayCost, zoneHistory),
+      avgDailyCost: zoneHistory?.avgDaily.cost ?? null,
+      lastWeekCost: zoneHistory?.lastWeek.cost ?? null,
+    });
+  }
+
+  // The demand charge uses the month's peak: today's completed buckets and
+  // the history's peak for the current calendar month
+  const peakKw = Math.max(
+    todaySeed ? getPeakDemandKw(todaySeed.aggregates) : 0,
+    monthlyPeakKw.get(startOfLocalMonth(now)) ?? 0
+  );
+  const demandCharge = tariff?.demandCharge
+    ? { peakKw, cost: peakKw * tariff.demandCharge.ratePerKw }
+    : null;
+
+  const zoneCosts = Array.from(costs.values());
+  const total = (pick: (cost: ZoneCost) => number) => zoneCosts.reduce((sum, cost) => sum + pick(cost), 0);
+
+  return {
+    zones: costs,
+    todayCost: total(cost => cost.todayCost),
+    projectedDayCost: total(cost => cost.projectedDayCost),
+    projectedMonthCost: total(cost => cost.projectedMonthCost) + (demandCharge?.cost ?? 0),
+    demandCharge,
+    activeBand: tariff ? getTariffBand(tariff, new Date(now)) : null,
+    avgDailyCost: sumOrNull(zoneCosts.map(cost => cost.avgDailyCost)),
+    lastWeekCost: sumOrNull(zoneCosts.map(cost => cost.lastWeekCost)),
+    asOf: now,
+  };
+}
+
+/**
+ * Format a cost for display (e.g. "$1,234.56")
+ */
+export function formatCost(amount: number): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: CURRENCY }).format(amount);
+}
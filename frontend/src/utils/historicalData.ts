@@ -1,4 +1,5 @@
-import type { EnergyReading } from '../types';
+import type { EnergyReading, ReadingAggregate } from '../types';
+import { fetchAllPages } from './api';
 
 export interface HistoricalBaseline {
   zoneId: string;
@@ -9,22 +10,84 @@ export interface HistoricalBaseline {
   dataPoints: number;
 }
 
+export interface HistoricalQuery {
+  zoneIds?: string[];
+  from?: Date;
+  to?: Date;
+  resolution?: string; // 'raw' or a bucket size such as '1m', '15m', '1h'
+}
+
+export type AggregateBucket = '1m' | '15m' | '1h' | '1d';
+
+export interface AggregateQuery {
+  zoneIds?: string[];
+  from?: Date;
+  to?: Date;
+  bucket?: AggregateBucket; // One aggregate per zone for the whole window when omitted
+}
+
 /**
- * Load historical data from JSON file
+ * Load historical readings from the backend API, following pagination
+ *
+ * Defaults to 1-minute averages, which is plenty for hourly baselines and
+ * comparison windows while being a fraction of the raw 5-second data.
  */
-export async function loadHistoricalData(): Promise<EnergyReading[]> {
+export async function loadHistoricalData(
+  query: HistoricalQuery = { resolution: '1m' }
+): Promise<EnergyReading[]> {
   try {
-    const response = await fetch('/data/historical-data.json');
-    if (!response.ok) {
-      throw new Error(`Failed to load historical data: ${response.statusText}`);
-    }
-    return await response.json();
+    return await fetchAllPages<EnergyReading>('/api/readings', query, {
+      resolution: query.resolution,
+    });
   } catch (error) {
     console.error('Error loading historical data:', error);
     return [];
   }
 }
 
+/**
+ * Load raw readings (every reading as recorded) from the backend API
+ *
+ * Meant for short windows; like loadAggregates, errors are thrown.
+ */
+export async function loadRawReadings(query: Omit<HistoricalQuery, 'resolution'>): Promise<EnergyReading[]> {
+  return fetchAllPages<EnergyReading>('/api/readings', query, {});
+}
+
+/**
+ * Load time-bucketed aggregates computed by the backend from raw readings
+ *
+ * Unlike loadHistoricalData, errors are thrown so callers can tell an empty
+ * window from a failed request.
+ */
+export async function loadAggregates(query: AggregateQuery = {}): Promise<ReadingAggregate[]> {
+  return fetchAllPages<ReadingAggregate>('/api/aggregates', query, {
+    bucket: query.bucket,
+  });
+}
+
+/**
+ * Convert whole-window aggregates into per-zone baselines
+ */
+export function aggregatesToBaselines(
+  aggregates: ReadingAggregate[]
+): Map<string, HistoricalBaseline> {
+  const baselines = new Map<string, HistoricalBaseline>();
+
+  for (const aggregate of aggregates) {
+    baselines.set(aggregate.zoneId, {
+      zoneId: aggregate.zoneId,
+      zoneName: aggregate.zoneName,
+      avgEnergyKw: aggregate.avgKw,
+      minEnergyKw: aggregate.minKw,
+      maxEnergyKw: aggregate.maxKw,
+      dataPoints: aggregate.count,
+    });
+  }
+
+  return baselines;
+}
+
 /**
  * Calculate baseline statistics for each zone from historical data
  */
@@ -66,6 +129,42 @@ export function calculateBaselines(
   return baselines;
 }
 
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the first and last timestamp covered by readings sorted by timestamp
+ */
+export function getDataRange(readings: EnergyReading[]): { start: Date; end: Date } | null {
+  if (readings.length === 0) return null;
+  return {
+    start: new Date(readings[0].timestamp),
+    end: new Date(readings[readings.length - 1].timestamp),
+  };
+}
+
+/**
+ * Shift a time window back by whole weeks so it falls inside a data range
+ *
+ * Keeps weekday and time of day, so "today so far" can be matched against
+ * the same weekday in a dataset recorded on other dates. The window moves
+ * back at least minWeeksBack weeks: the range may include the persisted live
+ * readings, which already cover the window itself. Returns null if the
+ * window cannot fit inside the range.
+ */
+export function shiftIntoRange(
+  from: Date,
+  to: Date,
+  range: { start: Date; end: Date },
+  minWeeksBack = 0
+): { from: Date; to: Date } | null {
+  const weeks = Math.min(-minWeeksBack, Math.floor((range.end.getTime() - to.getTime()) / WEEK_MS));
+  const shiftedFrom = new Date(from.getTime() + weeks * WEEK_MS);
+  const shiftedTo = new Date(to.getTime() + weeks * WEEK_MS);
+
+  if (shiftedFrom < range.start) return null;
+  return { from: shiftedFrom, to: shiftedTo };
+}
+
 /**
  * Calculate percentage difference from baseline
  */
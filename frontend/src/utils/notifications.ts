@@ -0,0 +1,175 @@
+import type { Anomaly } from '../types';
+import { getAnomalyDescription } from './anomalyDisplay';
+
+/**
+ * Notifications: desktop and sound alerts for critical anomalies
+ *
+ * Operators away from the dashboard are alerted when an incident becomes
+ * critical, through a browser desktop notification and/or an audible alarm.
+ * Alerts can be muted during quiet hours and limited to subscribed zones.
+ * Settings are kept in localStorage. (Webhooks for external systems are sent
+ * by the server, see backend/src/webhooks.ts.)
+ */
+
+export interface QuietHours {
+  start: number; // Local hour 0-24; wraps past midnight when start > end
+  end: number;
+}
+
+export interface NotificationSettings {
+  desktop: boolean;
+  sound: boolean;
+  quietHours: QuietHours | null;
+  zoneIds: string[] | null; // Subscribed zones, null for all
+}
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+const NOTIFICATION_STORAGE_KEY = 'energy-dashboard:notifications';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktop: false,
+  sound: false,
+  quietHours: null,
+  zoneIds: null,
+};
+
+const isHour = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 24;
+
+/**
+ * Check stored settings, so edits from an older version (or by hand) can't
+ * break the panel
+ */
+function isNotificationSettings(value: unknown): value is NotificationSettings {
+  if (typeof value !== 'object' || value === null) return false;
+  const settings = value as Record<string, unknown>;
+  const quietHours = settings.quietHours as Record<string, unknown> | null;
+  return typeof settings.desktop === 'boolean'
+    && typeof settings.sound === 'boolean'
+    && (quietHours === null
+      || (typeof quietHours === 'object' && isHour(quietHours.start) && isHour(quietHours.end)))
+    && (settings.zoneIds === null
+      || (Array.isArray(settings.zoneIds) && settings.zoneIds.every(id => typeof id === 'string')));
+}
+
+/**
+ * Check if an hour falls within the quiet hours
+ */
+export function isQuietHour(quietHours: QuietHours | null, hour: number): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const { start, end } = quietHours;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Check if an anomaly should raise a notification: critical, in a subscribed
+ * zone and outside quiet hours
+ */
+export function shouldNotify(anomaly: Anomaly, settings: NotificationSettings, now: Date): boolean {
+  return anomaly.severity === 'critical'
+    && (settings.zoneIds === null || settings.zoneIds.includes(anomaly.zoneId))
+    && !isQuietHour(settings.quietHours, now.getHours());
+}
+
+/**
+ * Load notification settings (defaults if none are saved or they are invalid)
+ */
+export function loadNotificationSettings(): NotificationSettings {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(NOTIFICATION_STORAGE_KEY) ?? 'null');
+    return isNotificationSettings(raw) ? raw : DEFAULT_NOTIFICATION_SETTINGS;
+  } catch (err) {
+    console.error('Error loading notification settings:', err);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+/**
+ * Save notification settings (failures, e.g. storage full or disabled, are
+ * logged only)
+ */
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  try {
+    localStorage.setItem(NOTIFICATION_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Error saving notification settings:', err);
+  }
+}
+
+/**
+ * Get the browser's desktop notification permission
+ */
+export function getDesktopPermission(): DesktopPermission {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Ask for desktop notification permission (must follow a user action)
+ */
+export async function requestDesktopPermission(): Promise<DesktopPermission> {
+  if (!('Notification' in window)) return 'unsupported';
+  return Notification.requestPermission();
+}
+
+/**
+ * Show a desktop notification for an anomaly (no-op without permission)
+ *
+ * The incident id is used as the tag, so an incident replaces its own
+ * notification rather than stacking.
+ */
+export function showDesktopNotification(anomaly: Anomaly): void {
+  if (getDesktopPermission() !== 'granted') return;
+
+  const notification = new Notification(`Critical: ${anomaly.zoneName}`, {
+    body: getAnomalyDescription(anomaly),
+    tag: anomaly.id,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
+
+/**
+ * Show a desktop notification confirming notifications work
+ */
+export function showTestNotification(): void {
+  if (getDesktopPermission() !== 'granted') return;
+  new Notification('Test notification', {
+    body: 'Critical anomalies will be notified like this.',
+    tag: 'test',
+  });
+}
+
+// Created on first use. Browsers only start audio after the user has
+// interacted with the page, so after a reload the alarm stays silent until
+// the first click.
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play a short alarm: three high beeps
+ */
+export function playAlarm(): void {
+  try {
+    audioContext ??= new AudioContext();
+    void audioContext.resume();
+
+    const start = audioContext.currentTime;
+    for (let i = 0; i < 3; i++) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = 'square';
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.1;
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(start + i * 0.25);
+      oscillator.stop(start + i * 0.25 + 0.15);
+    }
+  } catch (err) {
+    console.error('Error playing alarm:', err);
+  }
+}
@@ -0,0 +1,149 @@
+import type { EnergyReading } from '../types';
+
+/**
+ * Peak Demand: plant-wide 15-minute average demand
+ *
+ * Utilities bill demand on the average plant load over 15-minute intervals
+ * aligned to the clock (:00, :15, :30, :45). Each zone's energy is integrated
+ * from its readings (holding a reading's load until the zone's next reading,
+ * gaps capped at MAX_SAMPLE_INTERVAL_MS) into one-minute bins for the whole
+ * plant. From these come:
+ * - rolling demand: average plant load over the last 15 minutes
+ * - interval demand: average so far in the current billing interval, and a
+ *   forecast of its final value if the current plant load continues
+ *
+ * Times come from reading timestamps, so the meter follows the server clock.
+ * Time before the meter saw its first reading is assumed to have averaged
+ * the same as the time it did see.
+ */
+
+const MAX_SAMPLE_INTERVAL_MS = 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const BIN_MS = 60 * 1000;
+export const DEMAND_INTERVAL_MS = 15 * 60 * 1000;
+
+// Shortest coverage worth reporting an average for
+const MIN_COVERAGE_MS = 10 * 1000;
+
+export interface DemandInterval {
+  start: number;
+  end: number;
+  averageKw: number; // Average so far
+  forecastKw: number; // Expected average when the interval closes
+}
+
+export interface DemandSnapshot {
+  plantKw: number; // Sum of each zone's latest reading
+  rollingKw: number | null; // Average over the last 15 minutes (null until enough data)
+  interval: DemandInterval | null;
+  asOf: number;
+}
+
+export type DemandStatus = 'ok' | 'forecast-breach' | 'breach';
+
+export interface DemandMeter {
+  update(reading: EnergyReading): void;
+  getSnapshot(): DemandSnapshot | null; // null before the first reading
+}
+
+/**
+ * Create a stateful plant demand meter fed with every zone's readings
+ * (in time order per zone)
+ */
+export function createDemandMeter(): DemandMeter {
+  const latest = new Map<string, EnergyReading>();
+  const bins = new Map<number, number>(); // Bin start → plant kWh
+  let firstTime: number | null = null;
+  let lastTime = 0;
+
+  // Spread a constant load over the bins it covers
+  function addEnergy(kw: number, from: number, to: number) {
+    for (let start = from; start < to;) {
+      const binStart = Math.floor(start / BIN_MS) * BIN_MS;
+      const end = Math.min(to, binStart + BIN_MS);
+      bins.set(binStart, (bins.get(binStart) ?? 0) + kw * (end - start) / MS_PER_HOUR);
+      start = end;
+    }
+  }
+
+  // Energy in bins starting at or after `from`
+  function energySince(from: number): number {
+    let kwh = 0;
+    for (const [binStart, binKwh] of bins) {
+      if (binStart >= from) kwh += binKwh;
+    }
+    return kwh;
+  }
+
+  function update(reading: EnergyReading) {
+    const time = new Date(reading.timestamp).getTime();
+    const previous = latest.get(reading.zoneId);
+
+    if (previous) {
+      const previousTime = new Date(previous.timestamp).getTime();
+      if (time <= previousTime) return;
+      addEnergy(previous.energyKw, previousTime, Math.min(time, previousTime + MAX_SAMPLE_INTERVAL_MS));
+    }
+
+    latest.set(reading.zoneId, reading);
+    firstTime ??= time;
+    lastTime = Math.max(lastTime, time);
+
+    // Keep enough bins for the rolling window and the current interval
+    const oldest = Math.floor((lastTime - 2 * DEMAND_INTERVAL_MS) / BIN_MS) * BIN_MS;
+    for (const binStart of bins.keys()) {
+      if (binStart < oldest) bins.delete(binStart);
+    }
+  }
+
+  function getSnapshot(): DemandSnapshot | null {
+    if (firstTime === null) return null;
+
+    const now = lastTime;
+    const plantKw = Array.from(latest.values()).reduce((sum, reading) => sum + reading.energyKw, 0);
+
+    // Rolling window (whole bins, so up to a minute longer than 15 minutes)
+    const rollingStart = Math.max(Math.floor((now - DEMAND_INTERVAL_MS) / BIN_MS) * BIN_MS, firstTime);
+    const rollingCovered = now - rollingStart;
+    const rollingKw = rollingCovered >= MIN_COVERAGE_MS
+      ? energySince(rollingStart) / (rollingCovered / MS_PER_HOUR)
+      : null;
+
+    // Current billing interval
+    const start = Math.floor(now / DEMAND_INTERVAL_MS) * DEMAND_INTERVAL_MS;
+    const end = start + DEMAND_INTERVAL_MS;
+    const covered = now - Math.max(start, firstTime);
+    let interval: DemandInterval | null = null;
+    if (covered >= MIN_COVERAGE_MS) {
+      const averageKw = energySince(start) / (covered / MS_PER_HOUR);
+      const forecastKw = (averageKw * (now - start) + plantKw * (end - now)) / DEMAND_INTERVAL_MS;
+      interval = { start, end, averageKw, forecastKw };
+    }
+
+    return { plantKw, rollingKw, interval, asOf: now };
+  }
+
+  return { update, getSnapshot };
+}
+
+/**
+ * Compare demand with the site limit
+ *
+ * A breach means the rolling average is above the limit, or the current
+ * interval will close above it even if the plant used nothing for the rest
+ * of it; a forecast breach means it will close above the limit unless load
+ * comes down.
+ */
+export function getDemandStatus(snapshot: DemandSnapshot, limitKw: number | null): DemandStatus {
+  if (limitKw === null) return 'ok';
+
+  const { rollingKw, interval, asOf } = snapshot;
+  const committedKw = interval ? interval.averageKw * (asOf - interval.start) / DEMAND_INTERVAL_MS : 0;
+  if ((rollingKw ?? 0) > limitKw || committedKw > limitKw) {
+    return 'breach';
+  }
+  if ((interval?.forecastKw ?? 0) > limitKw) {
+    return 'forecast-breach';
+  }
+  return 'ok';
+}
@@ -0,0 +1,58 @@
+import type { EnergyReading } from '../types';
+
+/**
+ * Per-zone reading buffer helpers
+ *
+ * Live readings normally arrive in order and are appended, but readings
+ * replayed after a reconnect (backfill) can overlap or interleave with the
+ * live stream. Merging keeps each zone's buffer sorted by timestamp with one
+ * entry per timestamp.
+ */
+
+function readingTime(reading: EnergyReading): number {
+  return new Date(reading.timestamp).getTime();
+}
+
+/**
+ * Merge readings for one zone into its buffer, keeping the newest maxSize
+ *
+ * Takes the fast path (plain append) when the incoming readings are all
+ * newer than the buffer, which is the case for every live reading.
+ */
+export function mergeReadings(
+  existing: EnergyReading[],
+  incoming: EnergyReading[],
+  maxSize: number
+): EnergyReading[] {
+  if (incoming.length === 0) return existing;
+
+  const lastTime = existing.length > 0 ? readingTime(existing[existing.length - 1]) : -Infinity;
+  const sortedIncoming = [...incoming].sort((a, b) => readingTime(a) - readingTime(b));
+
+  let merged: EnergyReading[];
+  if (readingTime(sortedIncoming[0]) > lastTime) {
+    merged = [...existing, ...sortedIncoming];
+  } else {
+    const byTimestamp = new Map<string, EnergyReading>();
+    for (const reading of [...existing, ...sortedIncoming]) {
+      byTimestamp.set(reading.timestamp, reading);
+    }
+    merged = [...byTimestamp.values()].sort((a, b) => readingTime(a) - readingTime(b));
+  }
+
+  return merged.length > maxSize ? merged.slice(-maxSize) : merged;
+}
+
+/**
+ * Group readings by zone (order within each zone is preserved)
+ */
+export function groupByZone(readings: EnergyReading[]): Map<string, EnergyReading[]> {
+  const groups = new Map<string, EnergyReading[]>();
+  for (const reading of readings) {
+    if (!groups.has(reading.zoneId)) {
+      groups.set(reading.zoneId, []);
+    }
+    groups.get(reading.zoneId)!.push(reading);
+  }
+  return groups;
+}
@@ -0,0 +1,48 @@
+/**
+ * Reconnect Policy: how long to wait before each WebSocket reconnect attempt
+ *
+ * Delays grow exponentially from `initialDelayMs` by `multiplier` per attempt,
+ * capped at `maxDelayMs`. `jitter` randomises each delay by up to that
+ * fraction (0.3 = ±30%) so many dashboards don't reconnect in lockstep after
+ * a server restart. `maxAttempts` may be Infinity to keep retrying forever.
+ */
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number;
+  maxAttempts: number;
+}
+
+// Control-room screens are left unattended, so never give up by default
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: Infinity,
+};
+
+/**
+ * Get the delay before a reconnect attempt (counting from 0)
+ */
+export function getReconnectDelay(
+  attempt: number,
+  policy: ReconnectPolicy,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt),
+    policy.maxDelayMs
+  );
+  const spread = base * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
+
+/**
+ * Check whether the policy allows another attempt after `attempts` tries
+ */
+export function canRetry(attempts: number, policy: ReconnectPolicy): boolean {
+  return attempts < policy.maxAttempts;
+}
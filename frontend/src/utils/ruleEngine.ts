@@ -0,0 +1,193 @@
+import type { Anomaly, EnergyReading } from '../types';
+import { RULE_METRICS, isRuleInTimeWindow, type AlertRule, type RuleCondition } from './alertRules';
+import { updateIncidents } from '../../../shared/anomalyLifecycle';
+
+/**
+ * Rule Engine: evaluate alert rules (see alertRules.ts) against readings
+ *
+ * State is kept per rule and zone: when the rule's conditions started holding
+ * and whether it is firing. While firing, every reading that still meets the
+ * (hysteresis-relaxed) conditions is reported as a detection, which
+ * updateIncidents merges into one incident per rule and zone.
+ */
+
+// Stop testing a rule against history after this many incidents
+const MAX_TEST_INCIDENTS = 500;
+
+interface RuleZoneState {
+  since: number; // When the conditions started holding
+  firing: boolean;
+}
+
+export interface RuleEngine {
+  update(reading: EnergyReading): Anomaly[];
+  // Replace the rules (restarts the state of rules that changed, so incidents
+  // of the others stay open)
+  setRules(rules: AlertRule[]): void;
+  reset(): void;
+}
+
+export interface RuleTestResult {
+  incidents: Anomaly[]; // Oldest first
+  readingsChecked: number;
+  truncated: boolean; // Stopped at MAX_TEST_INCIDENTS
+}
+
+/**
+ * Get the value a condition compares, or null if unavailable (rate of change
+ * needs a previous reading)
+ */
+function getMetricValue(
+  condition: RuleCondition,
+  reading: EnergyReading,
+  previous: EnergyReading | undefined
+): number | null {
+  switch (condition.metric) {
+    case 'energy':
+      return reading.energyKw;
+    case 'temperature':
+      return reading.temperature;
+    case 'rate-of-change':
+      return previous && previous.energyKw !== 0
+        ? ((reading.energyKw - previous.energyKw) / previous.energyKw) * 100
+        : null;
+  }
+}
+
+/**
+ * Check a condition, relaxing its value by the hysteresis once firing
+ */
+function conditionHolds(condition: RuleCondition, actual: number | null, hysteresis: number): boolean {
+  if (actual === null) return false;
+
+  const margin = Math.abs(condition.value) * hysteresis;
+  return condition.operator === '>'
+    ? actual > condition.value - margin
+    : actual < condition.value + margin;
+}
+
+/**
+ * Create a detection for a firing rule
+ *
+ * Value, threshold and unit come from the rule's first condition (all of
+ * them hold while firing), so peaks and descriptions are in its metric.
+ */
+function createRuleAnomaly(reading: EnergyReading, rule: AlertRule, value: number): Anomaly {
+  const [condition] = rule.conditions;
+  return {
+    id: `${reading.zoneId}-rule-${rule.id}-${reading.timestamp}`,
+    type: 'rule',
+    zoneId: reading.zoneId,
+    zoneName: reading.zoneName,
+    timestamp: reading.timestamp,
+    value,
+    threshold: condition.value,
+    severity: rule.severity,
+    startTime: reading.timestamp,
+    endTime: null,
+    peakValue: value,
+    durationMs: 0,
+    readingCount: 1,
+    status: 'active',
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ruleUnit: RULE_METRICS.find(({ metric }) => metric === condition.metric)!.unit,
+  };
+}
+
+/**
+ * Create a stateful rule engine fed with every zone's readings (in time
+ * order per zone); only enabled rules are evaluated
+ */
+export function createRuleEngine(initialRules: AlertRule[] = []): RuleEngine {
+  let rules = initialRules.filter(rule => rule.enabled);
+  const states = new Map<string, Map<string, RuleZoneState>>(); // Rule id → zone id → state
+  const previousReadings = new Map<string, EnergyReading>();
+
+  function update(reading: EnergyReading): Anomaly[] {
+    const time = new Date(reading.timestamp).getTime();
+    const hour = new Date(reading.timestamp).getHours();
+    const previous = previousReadings.get(reading.zoneId);
+    previousReadings.set(reading.zoneId, reading);
+
+    const detections: Anomaly[] = [];
+    for (const rule of rules) {
+      if (rule.zoneId !== null && rule.zoneId !== reading.zoneId) continue;
+
+      let ruleStates = states.get(rule.id);
+      if (!ruleStates) {
+        ruleStates = new Map();
+        states.set(rule.id, ruleStates);
+      }
+      const state = ruleStates.get(reading.zoneId);
+      const hysteresis = state?.firing ? rule.hysteresis : 0;
+      const values = rule.conditions.map(c => getMetricValue(c, reading, previous));
+      const holds = isRuleInTimeWindow(rule, hour)
+        && rule.conditions.every((c, i) => conditionHolds(c, values[i], hysteresis));
+
+      if (!holds) {
+        ruleStates.delete(reading.zoneId);
+        continue;
+      }
+
+      if (!state) {
+        ruleStates.set(reading.zoneId, { since: time, firing: rule.durationMs === 0 });
+      } else if (!state.firing && time - state.since >= rule.durationMs) {
+        state.firing = true;
+      }
+
+      if (ruleStates.get(reading.zoneId)!.firing) {
+        detections.push(createRuleAnomaly(reading, rule, values[0]!));
+      }
+    }
+
+    return detections;
+  }
+
+  return {
+    update,
+    setRules: (nextRules: AlertRule[]) => {
+      const previous = new Map(rules.map(rule => [rule.id, JSON.stringify(rule)]));
+      rules = nextRules.filter(rule => rule.enabled);
+
+      const unchanged = new Set(
+        rules.filter(rule => previous.get(rule.id) === JSON.stringify(rule)).map(rule => rule.id)
+      );
+      for (const ruleId of states.keys()) {
+        if (!unchanged.has(ruleId)) states.delete(ruleId);
+      }
+    },
+    reset: () => {
+      states.clear();
+      previousReadings.clear();
+    },
+  };
+}
+
+/**
+ * Run a rule (enabled or not) over historical readings, sorted by timestamp,
+ * and collect the incidents it would have raised
+ */
+export function testRuleAgainstHistory(rule: AlertRule, readings: EnergyReading[]): RuleTestResult {
+  const engine = createRuleEngine([{ ...rule, enabled: true }]);
+  const resolved: Anomaly[] = [];
+  let open: Anomaly[] = [];
+  let readingsChecked = 0;
+
+  for (const reading of readings) {
+    if (resolved.length + open.length >= MAX_TEST_INCIDENTS) break;
+
+    const updated = updateIncidents(open, reading, engine.update(reading));
+    if (updated !== open) {
+      resolved.push(...updated.filter(incident => incident.status === 'resolved'));
+      open = updated.filter(incident => incident.status === 'active');
+    }
+    readingsChecked++;
+  }
+
+  return {
+    incidents: [...resolved, ...open].sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    readingsChecked,
+    truncated: readingsChecked < readings.length,
+  };
+}
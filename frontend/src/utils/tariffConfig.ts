@@ -0,0 +1,16 @@
+import type { TariffConfig } from '../types';
+import { parseTariffConfig } from '../../../shared/tariff';
+
+/**
+ * Load and validate the time-of-use tariff from JSON file
+ *
+ * Unlike the zone config, the tariff is optional: without it costs fall back
+ * to each zone's flat costPerKwh, so callers treat failures as a warning.
+ */
+export async function loadTariffConfig(): Promise<TariffConfig> {
+  const response = await fetch('/data/tariff-config.json');
+  if (!response.ok) {
+    throw new Error(`Failed to load tariff config: ${response.statusText}`);
+  }
+  return parseTariffConfig(await response.json());
+}
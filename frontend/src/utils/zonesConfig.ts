@@ -0,0 +1,26 @@
+import type { ZoneConfig } from '../types';
+import { parseZonesConfig } from '../../../shared/zones';
+
+// Fallback chart colours for zones without a configured colour
+const DEFAULT_ZONE_COLORS = ['#0066cc', '#28a745', '#dc3545', '#ffc107', '#6c757d', '#6f42c1', '#17a2b8'];
+
+/**
+ * Load and validate zone configuration from JSON file
+ *
+ * Unlike historical data, a missing or invalid zone config is an error:
+ * detection and charts cannot work without it.
+ */
+export async function loadZonesConfig(): Promise<ZoneConfig[]> {
+  const response = await fetch('/data/zones-config.json');
+  if (!response.ok) {
+    throw new Error(`Failed to load zone config: ${response.statusText}`);
+  }
+  return parseZonesConfig(await response.json());
+}
+
+/**
+ * Get chart colour for a zone (configured colour or palette by position)
+ */
+export function getZoneColor(zone: ZoneConfig, index: number): string {
+  return zone.color ?? DEFAULT_ZONE_COLORS[index % DEFAULT_ZONE_COLORS.length];
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared Anomaly Types
+ *
+ * Incident shape used by the dashboard's detectors and carried by `anomaly`
+ * messages on the WebSocket feed (see protocol.ts).
+ */
+
+import type { AnomalyTriage } from './anomalyTriage';
+
+// Anomaly detection types
+export type AnomalyType =
+  | 'spike'
+  | 'drop'
+  | 'flatline'
+  | 'out-of-hours'
+  | 'drift'
+  | 'sensor-offline'
+  | 'rule'
+  | 'temperature'
+  | 'decoupling';
+
+export const ANOMALY_TYPES: AnomalyType[] = [
+  'spike',
+  'drop',
+  'flatline',
+  'out-of-hours',
+  'drift',
+  'sensor-offline',
+  'rule',
+  'temperature',
+  'decoupling',
+];
+
+// Anomaly severity levels
+export type AnomalySeverity = 'warning' | 'critical';
+
+// Unit of an incident's value, threshold and peak
+export type AnomalyUnit = 'kW' | '°C' | '%';
+
+export const ANOMALY_UNITS: AnomalyUnit[] = ['kW', '°C', '%'];
+
+// Anomaly lifecycle status
+export type AnomalyStatus = 'active' | 'resolved';
+
+// Anomaly incident: consecutive offending readings for one zone and type
+export interface Anomaly {
+  id: string; // Unique identifier
+  type: AnomalyType;
+  zoneId: string;
+  zoneName: string;
+  timestamp: string; // Most recent offending reading
+  value: number; // Most recent offending energy reading (°C for temperature and decoupling)
+  threshold: number; // Expected threshold that was exceeded (ms of silence for sensor-offline)
+  severity: AnomalySeverity; // Highest severity seen during the incident
+  startTime: string;
+  endTime: string | null; // null while the incident is active
+  peakValue: number; // Most extreme reading during the incident (same unit as value)
+  durationMs: number;
+  readingCount: number;
+  status: AnomalyStatus;
+  ruleId?: string; // User-defined alert rule that raised a 'rule' incident
+  ruleName?: string;
+  ruleUnit?: AnomalyUnit; // Unit of the rule condition tracked as value and threshold
+  triage?: AnomalyTriage; // Operator follow-up, once there is any (see anomalyTriage.ts)
+}
@@ -0,0 +1,560 @@
+/**
+ * Anomaly Detection Algorithm: Hybrid Threshold + Pattern-Based
+ *
+ * Runs on the mock server, which broadcasts and stores the resulting
+ * incidents (see backend/src/anomaly-monitor.ts); the dashboard only renders
+ * them.
+ * 
+ * Approach:
+ * 1. Threshold-based: Uses expected ranges from zones-config.json, picking the
+ *    off-hours range when a scheduled zone is outside its operating hours
+ * 2. Pattern-based: Detects sudden changes (>30% from previous reading)
+ *    out of the expected range, only while operating and not across a
+ *    schedule start/stop
+ * 
+ * Detection Rules:
+ * - Spike: Energy > 1.5x expected max OR >30% increase from previous to
+ *   above the expected max
+ * - Drop: Energy < 0.5x expected min OR >30% decrease from previous to
+ *   below the expected min
+ * - Out-of-hours: Energy > 1.5x off-hours max while the zone should be idle
+ * - Flatline: Readings vary by less than a tolerance for a sustained duration
+ *   (tracked per zone by createFlatlineDetector, see below)
+ * - Drift: Sustained gradual trend up or down relative to the zone baseline
+ *   (tracked per zone by createDriftDetector, see below)
+ * - Temperature: Temperature outside the zone's temperatureRange
+ * - Decoupling: Temperature climbing while energy stays steady, e.g. a
+ *   cooling failure (tracked per zone by createDecouplingDetector, see below)
+ * - Rule: User-defined alert rules (evaluated in the dashboard, see
+ *   frontend/src/utils/ruleEngine.ts)
+ * 
+ * Severity comes from each zone's criticalThreshold (see getCriticalFactor):
+ * - Critical: at or above criticalThreshold, or a drop as far below the
+ *   drop threshold as criticalThreshold is above the expected max
+ *   (out-of-hours: production-level load). Sudden changes are graded by the
+ *   level they reach, not by the size of the step
+ * - Warning: any other detection
+ * Zone priority then ranks incidents across zones (see
+ * frontend/src/utils/anomalyPriority.ts).
+ *
+ * Hours are taken in local time, matching the mock server's schedule.
+ */
+
+import type { Anomaly, AnomalyType } from './anomalies';
+import type { SensorReading } from './protocol';
+import { getExpectedRange, getTemperatureLimits, isZoneOperating, type ZoneConfig } from './zones';
+
+/**
+ * Get the local hour of day a reading was taken
+ */
+function getReadingHour(reading: SensorReading): number {
+  return new Date(reading.timestamp).getHours();
+}
+
+// Relative change between consecutive readings treated as sudden
+const SUDDEN_CHANGE = 0.3;
+
+/**
+ * How far past its expected range a zone becomes critical: criticalThreshold
+ * relative to the expected max (e.g. 350 / 280 = 1.25). parseZonesConfig
+ * guarantees criticalThreshold is above the max, so this is always above 1.
+ */
+function getCriticalFactor(zone: ZoneConfig): number {
+  return zone.criticalThreshold / zone.expectedRange.max;
+}
+
+/**
+ * Helper to calculate severity from the zone's critical threshold
+ *
+ * Readings at or above criticalThreshold are critical. There is no configured
+ * lower limit, so a drop is critical once it is below the drop threshold by
+ * the same factor criticalThreshold is above the expected max.
+ */
+function calculateSeverity(
+  value: number,
+  zone: ZoneConfig,
+  dropThreshold?: number
+): 'critical' | 'warning' {
+  if (value >= zone.criticalThreshold) return 'critical';
+  if (dropThreshold !== undefined && value < dropThreshold / getCriticalFactor(zone)) return 'critical';
+  return 'warning';
+}
+
+/**
+ * Helper to create anomaly object for a single offending reading
+ *
+ * The result is a one-reading incident; consecutive detections are merged
+ * into a longer incident by updateIncidents (see anomalyLifecycle.ts).
+ */
+function createAnomaly(
+  reading: SensorReading,
+  type: AnomalyType,
+  threshold: number,
+  severity: 'critical' | 'warning'
+): Anomaly {
+  return {
+    id: `${reading.zoneId}-${type}-${reading.timestamp}`,
+    type,
+    zoneId: reading.zoneId,
+    zoneName: reading.zoneName,
+    timestamp: reading.timestamp,
+    value: reading.energyKw,
+    threshold,
+    severity,
+    startTime: reading.timestamp,
+    endTime: null,
+    peakValue: reading.energyKw,
+    durationMs: 0,
+    readingCount: 1,
+    status: 'active',
+  };
+}
+
+/**
+ * Detect anomalies in energy reading using hybrid approach
+ */
+export function detectAnomaly(
+  reading: SensorReading,
+  zone: ZoneConfig | undefined,
+  previousReading?: SensorReading
+): Anomaly | null {
+  if (!zone) return null;
+
+  const hour = getReadingHour(reading);
+  const isOperating = isZoneOperating(zone, hour);
+  const range = getExpectedRange(zone, hour);
+  const { energyKw } = reading;
+  const spikeThreshold = range.max * 1.5;
+  const dropThreshold = range.min * 0.5;
+
+  // 1. THRESHOLD-BASED DETECTION
+  
+  // Check for usage while the zone should be idle (>1.5x off-hours max)
+  if (!isOperating && energyKw > spikeThreshold) {
+    const severity = energyKw >= zone.expectedRange.min ? 'critical' : 'warning';
+    return createAnomaly(reading, 'out-of-hours', spikeThreshold, severity);
+  }
+
+  // Check for spike (>1.5x max)
+  if (energyKw > spikeThreshold) {
+    return createAnomaly(reading, 'spike', spikeThreshold, calculateSeverity(energyKw, zone));
+  }
+
+  // Check for drop (<0.5x min)
+  if (energyKw < dropThreshold) {
+    return createAnomaly(reading, 'drop', dropThreshold, calculateSeverity(energyKw, zone, dropThreshold));
+  }
+
+  // 2. PATTERN-BASED DETECTION (sudden changes)
+  if (!previousReading || previousReading.zoneId !== reading.zoneId) {
+    return null;
+  }
+
+  // Idle load is too small for relative changes to mean anything, and
+  // schedule starts/stops are expected step changes
+  if (!isOperating || !isZoneOperating(zone, getReadingHour(previousReading))) {
+    return null;
+  }
+
+  const percentChange = Math.abs(
+    (energyKw - previousReading.energyKw) / previousReading.energyKw
+  );
+  
+  // Check for sudden change (>30%)
+  if (percentChange <= SUDDEN_CHANGE) {
+    return null;
+  }
+
+  // Only a step out of the expected range is anomalous; a step back into
+  // it (or towards it) is a recovery, e.g. a spike ending
+  const type: AnomalyType = energyKw > previousReading.energyKw ? 'spike' : 'drop';
+  if (type === 'spike' ? energyKw <= range.max : energyKw >= range.min) {
+    return null;
+  }
+
+  // Severity follows the level reached, not the size of the step
+  return createAnomaly(reading, type, previousReading.energyKw, calculateSeverity(energyKw, zone));
+}
+
+/**
+ * Detect a temperature outside the zone's normal band
+ *
+ * Critical at or above the zone's critical temperature. Value, threshold and
+ * peak are in °C.
+ */
+export function detectTemperatureAnomaly(reading: SensorReading, zone: ZoneConfig | undefined): Anomaly | null {
+  if (!zone) return null;
+
+  const { min, max, critical } = getTemperatureLimits(zone);
+  const { temperature } = reading;
+  if (temperature >= min && temperature <= max) return null;
+
+  const severity = temperature >= critical ? 'critical' : 'warning';
+  return {
+    ...createAnomaly(reading, 'temperature', temperature > max ? max : min, severity),
+    value: temperature,
+    peakValue: temperature,
+  };
+}
+
+/**
+ * Flatline detection options
+ *
+ * - durationMs: how long readings must stay flat before raising an anomaly
+ * - minReadings: minimum readings in the window, so sparse data (e.g. the
+ *   5-second historical set) doesn't flag a couple of repeated idle values
+ * - toleranceKw: maximum spread (max - min) still considered "flat"
+ */
+export interface FlatlineOptions {
+  durationMs: number;
+  minReadings: number;
+  toleranceKw: number;
+}
+
+// Mock server flatlines last 30s, so raise well before they clear
+const DEFAULT_FLATLINE_OPTIONS: FlatlineOptions = {
+  durationMs: 10000,
+  minReadings: 10,
+  toleranceKw: 0.1,
+};
+
+export interface FlatlineDetector {
+  update(reading: SensorReading): Anomaly | null;
+  isActive(zoneId: string): boolean;
+  forget(zoneId: string): void; // Drop a zone's window (e.g. the zone was removed)
+  reset(): void;
+}
+
+/**
+ * Create a stateful flatline detector
+ *
+ * Keeps a sliding window of readings per zone covering `durationMs`. Once the
+ * window spans the full duration with at least `minReadings` readings and its
+ * spread stays within `toleranceKw`,
+ * every further flat reading is reported as a flatline detection (merged into
+ * one incident by updateIncidents). The flatline clears as soon as a reading
+ * moves outside the tolerance, after which a new flatline can be raised.
+ */
+export function createFlatlineDetector(
+  options: Partial<FlatlineOptions> = {}
+): FlatlineDetector {
+  const { durationMs, minReadings, toleranceKw } = { ...DEFAULT_FLATLINE_OPTIONS, ...options };
+  const windows = new Map<string, SensorReading[]>();
+  const activeZones = new Set<string>();
+
+  function update(reading: SensorReading): Anomaly | null {
+    const time = new Date(reading.timestamp).getTime();
+    const window = windows.get(reading.zoneId) ?? [];
+
+    window.push(reading);
+
+    // Drop readings that fall outside the duration window (keep one reading
+    // at or before the window start so we know the full span is covered,
+    // and never fewer than minReadings)
+    while (
+      window.length > minReadings &&
+      time - new Date(window[1].timestamp).getTime() >= durationMs
+    ) {
+      window.shift();
+    }
+    windows.set(reading.zoneId, window);
+
+    const values = window.map(r => r.energyKw);
+    const spread = Math.max(...values) - Math.min(...values);
+    const span = time - new Date(window[0].timestamp).getTime();
+
+    // Clear an active flatline once values start varying again
+    if (spread > toleranceKw) {
+      activeZones.delete(reading.zoneId);
+      // Restart the window from the reading that broke the flatline
+      windows.set(reading.zoneId, [reading]);
+      return null;
+    }
+
+    if (span < durationMs || window.length < minReadings) {
+      return null;
+    }
+
+    activeZones.add(reading.zoneId);
+    return createAnomaly(reading, 'flatline', toleranceKw, 'warning');
+  }
+
+  return {
+    update,
+    isActive: (zoneId: string) => activeZones.has(zoneId),
+    forget: (zoneId: string) => {
+      windows.delete(zoneId);
+      activeZones.delete(zoneId);
+    },
+    reset: () => {
+      windows.clear();
+      activeZones.clear();
+    },
+  };
+}
+
+/**
+ * Drift detection options
+ *
+ * - bucketMs: readings are averaged into buckets of this length to smooth noise
+ * - windowBuckets: number of buckets in the rolling regression window
+ * - minChange: fitted change across the window, as a fraction of baseline
+ * - minRSquared: minimum goodness of fit for the trend line
+ * - maxStepShare: largest allowed share of the change between two adjacent
+ *   buckets, so sudden steps (handled by detectAnomaly) are not reported as drift
+ */
+export interface DriftOptions {
+  bucketMs: number;
+  windowBuckets: number;
+  minChange: number;
+  minRSquared: number;
+  maxStepShare: number;
+}
+
+// 5-minute buckets over a 2-hour window: flags a 10% move over two hours
+const DEFAULT_DRIFT_OPTIONS: DriftOptions = {
+  bucketMs: 5 * 60 * 1000,
+  windowBuckets: 24,
+  minChange: 0.1,
+  minRSquared: 0.6,
+  maxStepShare: 0.5,
+};
+
+/**
+ * Baseline energy (kW) a reading is compared against, or null if unknown
+ */
+export type BaselineProvider = (reading: SensorReading, zone: ZoneConfig) => number | null;
+
+/**
+ * Default baseline: midpoint of the expected range for the current schedule
+ */
+export const expectedRangeBaseline: BaselineProvider = (reading, zone) => {
+  const range = getExpectedRange(zone, getReadingHour(reading));
+  return (range.min + range.max) / 2;
+};
+
+interface DriftZoneState {
+  bucketIndex: number;
+  sum: number; // Sum of energy/baseline ratios in the open bucket
+  count: number;
+  ratios: number[]; // Completed bucket means, oldest first
+  trend: { startRatio: number; endRatio: number } | null;
+}
+
+/**
+ * Fit a least-squares line to evenly spaced values
+ */
+function fitLine(values: number[]): { slope: number; intercept: number; rSquared: number } {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((acc, val) => acc + val, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  values.forEach((y, x) => {
+    sxy += (x - meanX) * (y - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (y - meanY) ** 2;
+  });
+
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const rSquared = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  return { slope, intercept: meanY - slope * meanX, rSquared };
+}
+
+export interface DriftDetector {
+  update(reading: SensorReading, zone: ZoneConfig | undefined): Anomaly | null;
+  // Replace the baseline (restarts all windows, as ratios are no longer comparable)
+  setBaselineProvider(provider: BaselineProvider): void;
+  forget(zoneId: string): void; // Drop a zone's window (e.g. the zone was removed)
+  reset(): void;
+}
+
+/**
+ * Create a stateful drift detector
+ *
+ * Each reading is divided by its baseline (so schedule changes and, with a
+ * time-of-day baseline, daily patterns cancel out) and averaged into buckets.
+ * When a bucket closes, a line is fitted over the last `windowBuckets` bucket
+ * means. The zone is drifting while the fitted change across the window is at
+ * least `minChange`, the fit is good and no single step dominates the change.
+ *
+ * While drifting, every reading is reported as a drift detection whose
+ * threshold is the fitted level at the window start and whose value is the
+ * fitted current level (both in kW).
+ */
+export function createDriftDetector(
+  options: Partial<DriftOptions> = {},
+  initialBaseline: BaselineProvider = expectedRangeBaseline
+): DriftDetector {
+  const { bucketMs, windowBuckets, minChange, minRSquared, maxStepShare } = {
+    ...DEFAULT_DRIFT_OPTIONS,
+    ...options,
+  };
+  const states = new Map<string, DriftZoneState>();
+  let getBaseline = initialBaseline;
+
+  function evaluateTrend(ratios: number[]): DriftZoneState['trend'] {
+    if (ratios.length < windowBuckets) return null;
+
+    const { slope, intercept, rSquared } = fitLine(ratios);
+    const change = slope * (ratios.length - 1);
+    if (Math.abs(change) < minChange || rSquared < minRSquared) return null;
+
+    const maxStep = Math.max(...ratios.slice(1).map((ratio, i) => Math.abs(ratio - ratios[i])));
+    if (maxStep > Math.abs(change) * maxStepShare) return null;
+
+    return { startRatio: intercept, endRatio: intercept + change };
+  }
+
+  function update(reading: SensorReading, zone: ZoneConfig | undefined): Anomaly | null {
+    if (!zone) return null;
+
+    const baseline = getBaseline(reading, zone);
+    if (!baseline || baseline <= 0) return null;
+
+    const bucketIndex = Math.floor(new Date(reading.timestamp).getTime() / bucketMs);
+    let state = states.get(reading.zoneId);
+
+    if (!state) {
+      state = { bucketIndex, sum: 0, count: 0, ratios: [], trend: null };
+      states.set(reading.zoneId, state);
+    } else if (bucketIndex !== state.bucketIndex) {
+      // Close the previous bucket; a data gap restarts the window
+      const contiguous = bucketIndex === state.bucketIndex + 1;
+      state.ratios = contiguous && state.count > 0
+        ? [...state.ratios, state.sum / state.count].slice(-windowBuckets)
+        : [];
+      state.trend = evaluateTrend(state.ratios);
+      state.bucketIndex = bucketIndex;
+      state.sum = 0;
+      state.count = 0;
+    }
+
+    state.sum += reading.energyKw / baseline;
+    state.count++;
+
+    if (!state.trend) return null;
+
+    const { startRatio, endRatio } = state.trend;
+    const change = Math.abs(endRatio - startRatio);
+    const currentLevel = endRatio * baseline;
+    const severity = change >= minChange * 2 ? 'critical' : calculateSeverity(currentLevel, zone);
+
+    return {
+      ...createAnomaly(reading, 'drift', startRatio * baseline, severity),
+      value: currentLevel,
+      peakValue: currentLevel,
+    };
+  }
+
+  return {
+    update,
+    setBaselineProvider: (provider: BaselineProvider) => {
+      getBaseline = provider;
+      states.clear();
+    },
+    forget: (zoneId: string) => states.delete(zoneId),
+    reset: () => states.clear(),
+  };
+}
+
+/**
+ * Decoupling detection options
+ *
+ * - windowMs: readings compared across a sliding window of this length
+ * - minReadings: minimum readings in the window
+ * - minTempRise: temperature rise across the window (°C) that is suspicious
+ * - maxEnergyChange: largest relative energy change across the window that
+ *   still counts as steady (more would explain the temperature)
+ */
+export interface DecouplingOptions {
+  windowMs: number;
+  minReadings: number;
+  minTempRise: number;
+  maxEnergyChange: number;
+}
+
+// Temperature follows energy by about 3°C per doubling, so a 1.5°C rise in a
+// minute with under 10% more energy isn't explained by load
+const DEFAULT_DECOUPLING_OPTIONS: DecouplingOptions = {
+  windowMs: 60000,
+  minReadings: 20,
+  minTempRise: 1.5,
+  maxEnergyChange: 0.1,
+};
+
+export interface DecouplingDetector {
+  update(reading: SensorReading): Anomaly | null;
+  forget(zoneId: string): void; // Drop a zone's window (e.g. the zone was removed)
+  reset(): void;
+}
+
+/**
+ * Average a field over a slice of readings
+ */
+function averageOf(readings: SensorReading[], field: 'energyKw' | 'temperature'): number {
+  return readings.reduce((sum, reading) => sum + reading[field], 0) / readings.length;
+}
+
+/**
+ * Create a stateful energy/temperature decoupling detector
+ *
+ * Keeps a sliding window of readings per zone and compares the average of
+ * its first and last quarter. The zone is decoupled while temperature rose
+ * by at least `minTempRise` and energy changed by at most `maxEnergyChange`.
+ * Each decoupled reading is reported with the temperature it rose from as
+ * threshold and the current average as value (°C); a rise of twice
+ * `minTempRise` is critical.
+ */
+export function createDecouplingDetector(
+  options: Partial<DecouplingOptions> = {}
+): DecouplingDetector {
+  const { windowMs, minReadings, minTempRise, maxEnergyChange } = {
+    ...DEFAULT_DECOUPLING_OPTIONS,
+    ...options,
+  };
+  const windows = new Map<string, SensorReading[]>();
+
+  function update(reading: SensorReading): Anomaly | null {
+    const time = new Date(reading.timestamp).getTime();
+    const window = windows.get(reading.zoneId) ?? [];
+
+    window.push(reading);
+    while (window.length > 0 && time - new Date(window[0].timestamp).getTime() > windowMs) {
+      window.shift();
+    }
+    windows.set(reading.zoneId, window);
+
+    // Need the window (nearly) covered as well as enough readings
+    const span = time - new Date(window[0].timestamp).getTime();
+    if (window.length < minReadings || span < windowMs * 0.9) return null;
+
+    const quarter = Math.max(1, Math.floor(window.length / 4));
+    const head = window.slice(0, quarter);
+    const tail = window.slice(-quarter);
+    const startTemp = averageOf(head, 'temperature');
+    const currentTemp = averageOf(tail, 'temperature');
+    const startEnergy = averageOf(head, 'energyKw');
+    const energyChange = startEnergy > 0
+      ? Math.abs(averageOf(tail, 'energyKw') - startEnergy) / startEnergy
+      : Infinity;
+
+    const tempRise = currentTemp - startTemp;
+    if (tempRise < minTempRise || energyChange > maxEnergyChange) return null;
+
+    const severity = tempRise >= minTempRise * 2 ? 'critical' : 'warning';
+    return {
+      ...createAnomaly(reading, 'decoupling', startTemp, severity),
+      value: currentTemp,
+      peakValue: currentTemp,
+    };
+  }
+
+  return {
+    update,
+    forget: (zoneId: string) => windows.delete(zoneId),
+    reset: () => windows.clear(),
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Anomaly Lifecycle: merge per-reading detections into incidents
+ *
+ * Detectors report one Anomaly per offending reading. Consecutive detections
+ * for the same zone and type (and alert rule) extend a single active incident
+ * (tracking peak value, duration and reading count) instead of creating a new
+ * entry each time.
+ *
+ * An active incident resolves once its zone has reported clean readings for
+ * RESOLVE_AFTER_MS, which keeps a noisy spike from flapping open/closed.
+ * Sensor-offline incidents come from a timer rather than readings (see
+ * updateOfflineIncidents) and resolve as soon as the zone reports again.
+ */
+
+import type { Anomaly } from './anomalies';
+import type { SensorReading } from './protocol';
+
+const RESOLVE_AFTER_MS = 5000;
+
+/**
+ * Check whether a value is more extreme than the incident's current peak
+ * (drops peak at their lowest value, drifts furthest from where they started,
+ * rule and temperature incidents furthest from their threshold, everything
+ * else at the highest)
+ */
+function isMoreExtreme(incident: Anomaly, value: number): boolean {
+  const { type, peakValue, threshold } = incident;
+  if (type === 'drift' || type === 'rule' || type === 'temperature') {
+    return Math.abs(value - threshold) > Math.abs(peakValue - threshold);
+  }
+  return type === 'drop' ? value < peakValue : value > peakValue;
+}
+
+/**
+ * Extend an active incident with a new detection of the same zone and type
+ */
+function extendIncident(incident: Anomaly, detection: Anomaly): Anomaly {
+  const peakValue = isMoreExtreme(incident, detection.value)
+    ? detection.value
+    : incident.peakValue;
+
+  return {
+    ...incident,
+    timestamp: detection.timestamp,
+    value: detection.value,
+    severity: incident.severity === 'critical' ? 'critical' : detection.severity,
+    peakValue,
+    durationMs: new Date(detection.timestamp).getTime() - new Date(incident.startTime).getTime(),
+    readingCount: incident.readingCount + 1,
+  };
+}
+
+/**
+ * Mark an incident as resolved at its last offending reading
+ */
+function resolveIncident(incident: Anomaly): Anomaly {
+  return {
+    ...incident,
+    status: 'resolved',
+    endTime: incident.timestamp,
+  };
+}
+
+/**
+ * Apply the detections for a reading to the current incident list
+ *
+ * Returns the same array instance when nothing changed, so callers can use
+ * it directly as React state without triggering extra renders.
+ */
+export function updateIncidents(
+  incidents: Anomaly[],
+  reading: SensorReading,
+  detections: Anomaly[]
+): Anomaly[] {
+  const readingTime = new Date(reading.timestamp).getTime();
+  const pending = [...detections];
+  let changed = false;
+
+  const updated = incidents.map(incident => {
+    if (incident.status !== 'active' || incident.zoneId !== reading.zoneId) {
+      return incident;
+    }
+
+    // Any reading means the zone is back online
+    if (incident.type === 'sensor-offline') {
+      changed = true;
+      return resolveIncident(incident);
+    }
+
+    const matchIndex = pending.findIndex(d => d.type === incident.type && d.ruleId === incident.ruleId);
+    if (matchIndex !== -1) {
+      const [detection] = pending.splice(matchIndex, 1);
+      changed = true;
+      return extendIncident(incident, detection);
+    }
+
+    if (readingTime - new Date(incident.timestamp).getTime() >= RESOLVE_AFTER_MS) {
+      changed = true;
+      return resolveIncident(incident);
+    }
+
+    return incident;
+  });
+
+  // Detections without an active incident open new ones
+  if (pending.length > 0) {
+    return [...updated, ...pending];
+  }
+
+  return changed ? updated : incidents;
+}
+
+/**
+ * Apply sensor-offline detections (see sensorStaleness.ts) to the current
+ * incident list, extending each zone's active offline incident
+ */
+export function updateOfflineIncidents(incidents: Anomaly[], detections: Anomaly[]): Anomaly[] {
+  if (detections.length === 0) return incidents;
+
+  const pending = [...detections];
+  const updated = incidents.map(incident => {
+    if (incident.status !== 'active' || incident.type !== 'sensor-offline') {
+      return incident;
+    }
+
+    const matchIndex = pending.findIndex(d => d.zoneId === incident.zoneId);
+    if (matchIndex === -1) return incident;
+
+    const [detection] = pending.splice(matchIndex, 1);
+    return {
+      ...incident,
+      timestamp: detection.timestamp,
+      severity: incident.severity === 'critical' ? 'critical' : detection.severity,
+      durationMs: new Date(detection.timestamp).getTime() - new Date(incident.startTime).getTime(),
+    };
+  });
+
+  return [...updated, ...pending];
+}
+
+/**
+ * Check whether an update is a significant change to an incident (it opened,
+ * changed severity or resolved) rather than extending its duration and peak
+ */
+export function isSignificantChange(previous: Anomaly | undefined, incident: Anomaly): boolean {
+  return !previous
+    || previous.severity !== incident.severity
+    || previous.status !== incident.status;
+}
+
+/**
+ * Resolve a zone's active incidents (e.g. the zone was removed, so nothing
+ * would ever resolve them)
+ */
+export function resolveZoneIncidents(incidents: Anomaly[], zoneId: string): Anomaly[] {
+  if (!incidents.some(incident => incident.zoneId === zoneId && incident.status === 'active')) {
+    return incidents;
+  }
+
+  return incidents.map(incident =>
+    incident.zoneId === zoneId && incident.status === 'active' ? resolveIncident(incident) : incident
+  );
+}
+
+/**
+ * Limit the incident list size, discarding the oldest resolved incidents first
+ */
+export function trimIncidents(incidents: Anomaly[], maxIncidents: number): Anomaly[] {
+  let excess = incidents.length - maxIncidents;
+  if (excess <= 0) return incidents;
+
+  return incidents.filter(incident => {
+    if (excess > 0 && incident.status === 'resolved') {
+      excess--;
+      return false;
+    }
+    return true;
+  }).slice(-maxIncidents);
+}
+
+/**
+ * Apply an incident update received from the server, replacing the incident
+ * with the same id or adding it at the end
+ */
+export function upsertIncident(incidents: Anomaly[], incident: Anomaly): Anomaly[] {
+  const index = incidents.findIndex(existing => existing.id === incident.id);
+  if (index === -1) return [...incidents, incident];
+
+  const updated = [...incidents];
+  updated[index] = incident;
+  return updated;
+}
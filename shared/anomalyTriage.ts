@@ -0,0 +1,124 @@
+/**
+ * Anomaly Triage: operator follow-up on incidents
+ *
+ * Operators acknowledge incidents (who/when), assign them to a person and
+ * record a root-cause category and note. The server stores triage with the
+ * incident in its anomaly log and changes it through
+ * PATCH /api/anomalies/:id, then sends the updated incident to every client
+ * (see backend/src/api.ts). Incidents of the dashboard's own alert rules only
+ * exist in the browser, so their triage is applied and stored there.
+ */
+
+export type AnomalyCategory = 'equipment-malfunction' | 'sensor-failure' | 'maintenance' | 'expected';
+
+export const ANOMALY_CATEGORIES: Array<{ category: AnomalyCategory; label: string }> = [
+  { category: 'equipment-malfunction', label: 'Equipment malfunction' },
+  { category: 'sensor-failure', label: 'Sensor failure' },
+  { category: 'maintenance', label: 'Maintenance' },
+  { category: 'expected', label: 'Expected' },
+];
+
+export interface AnomalyTriage {
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null; // ISO timestamp
+  assignee: string | null;
+  category: AnomalyCategory | null;
+  note: string;
+  updatedAt: string; // ISO timestamp of the last change
+}
+
+// A change to an incident's triage; acknowledgedBy acknowledges it (only the
+// first acknowledgement is kept)
+export interface TriageUpdate {
+  acknowledgedBy?: string;
+  assignee?: string | null;
+  category?: AnomalyCategory | null;
+  note?: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 2000;
+
+export const EMPTY_TRIAGE: AnomalyTriage = {
+  acknowledgedBy: null,
+  acknowledgedAt: null,
+  assignee: null,
+  category: null,
+  note: '',
+  updatedAt: new Date(0).toISOString(),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullableString(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function isCategory(value: unknown): value is AnomalyCategory {
+  return ANOMALY_CATEGORIES.some(({ category }) => category === value);
+}
+
+/**
+ * Check an incident's triage (from the log file or the WebSocket feed)
+ */
+export function isTriage(value: unknown): value is AnomalyTriage {
+  return isObject(value)
+    && isNullableString(value.acknowledgedBy)
+    && isNullableString(value.acknowledgedAt)
+    && isNullableString(value.assignee)
+    && (value.category === null || isCategory(value.category))
+    && typeof value.note === 'string'
+    && typeof value.updatedAt === 'string';
+}
+
+/**
+ * Validate a triage update (a PATCH body)
+ *
+ * Returns the problems found, empty when the update is valid.
+ */
+export function validateTriageUpdate(update: unknown): string[] {
+  if (!isObject(update)) return ['update must be an object'];
+
+  const errors: string[] = [];
+  const unknown = Object.keys(update).filter(
+    key => !['acknowledgedBy', 'assignee', 'category', 'note'].includes(key)
+  );
+  if (unknown.length > 0) errors.push(`Unknown field(s): ${unknown.join(', ')}`);
+
+  if (update.acknowledgedBy !== undefined
+    && (typeof update.acknowledgedBy !== 'string' || update.acknowledgedBy.trim() === ''
+      || update.acknowledgedBy.length > MAX_NAME_LENGTH)) {
+    errors.push(`acknowledgedBy must be a name of up to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (update.assignee !== undefined
+    && (!isNullableString(update.assignee) || (update.assignee?.length ?? 0) > MAX_NAME_LENGTH)) {
+    errors.push(`assignee must be null or a name of up to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (update.category !== undefined && update.category !== null && !isCategory(update.category)) {
+    errors.push(`category must be null or one of ${ANOMALY_CATEGORIES.map(({ category }) => category).join(', ')}`);
+  }
+  if (update.note !== undefined
+    && (typeof update.note !== 'string' || update.note.length > MAX_NOTE_LENGTH)) {
+    errors.push(`note must be a string of up to ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  return errors;
+}
+
+/**
+ * Apply an update to an incident's triage (EMPTY_TRIAGE when it has none)
+ */
+export function applyTriageUpdate(
+  triage: AnomalyTriage | undefined,
+  { acknowledgedBy, ...changes }: TriageUpdate,
+  now: Date
+): AnomalyTriage {
+  const entry = triage ?? EMPTY_TRIAGE;
+  const acknowledgement = acknowledgedBy && !entry.acknowledgedAt
+    ? { acknowledgedBy: acknowledgedBy.trim(), acknowledgedAt: now.toISOString() }
+    : {};
+
+  return { ...entry, ...changes, ...acknowledgement, updatedAt: now.toISOString() };
+}
@@ -0,0 +1,115 @@
+/**
+ * Statistical Baseline Model
+ *
+ * Historical readings are grouped by zone × day type (weekday/weekend) ×
+ * hour of day, and each group keeps mean, standard deviation and percentiles.
+ * This lets "now" be compared with the same time on a typical day, rather
+ * than a 7-day average that mixes production hours with idle nights.
+ *
+ * Hours and weekdays use local time, matching live detection and the
+ * mock server's schedule.
+ */
+
+import type { SensorReading } from './protocol';
+
+export type DayType = 'weekday' | 'weekend';
+
+export interface BaselineStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  count: number;
+}
+
+export interface BaselineModel {
+  // Keyed by baselineKey(zoneId, dayType, hour)
+  buckets: Map<string, BaselineStats>;
+}
+
+function baselineKey(zoneId: string, dayType: DayType, hour: number): string {
+  return `${zoneId}|${dayType}|${hour}`;
+}
+
+/**
+ * Get day type for a date (Saturday and Sunday are weekend)
+ */
+export function getDayType(date: Date): DayType {
+  const day = date.getDay();
+  return day === 0 || day === 6 ? 'weekend' : 'weekday';
+}
+
+/**
+ * Nearest-rank percentile of an ascending sorted array
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Calculate summary statistics for a set of values
+ */
+export function calculateStats(values: number[]): BaselineStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((acc, val) => acc + val, 0) / count;
+  const variance = sorted.reduce((acc, val) => acc + (val - mean) ** 2, 0) / count;
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[count - 1],
+    p5: percentile(sorted, 5),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    count,
+  };
+}
+
+/**
+ * Build the baseline model from historical readings
+ */
+export function buildBaselineModel(historicalData: SensorReading[]): BaselineModel {
+  const groups = new Map<string, number[]>();
+
+  for (const reading of historicalData) {
+    const date = new Date(reading.timestamp);
+    const key = baselineKey(reading.zoneId, getDayType(date), date.getHours());
+
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(reading.energyKw);
+  }
+
+  const buckets = new Map<string, BaselineStats>();
+  for (const [key, values] of groups.entries()) {
+    buckets.set(key, calculateStats(values));
+  }
+
+  return { buckets };
+}
+
+/**
+ * Get the baseline for a zone at a given time (same hour, same day type)
+ *
+ * Falls back to the other day type for the same hour when the history has
+ * no matching data (e.g. a dataset without weekends).
+ */
+export function getHourlyBaseline(
+  model: BaselineModel,
+  zoneId: string,
+  date: Date
+): BaselineStats | undefined {
+  const dayType = getDayType(date);
+  const hour = date.getHours();
+  const otherDayType: DayType = dayType === 'weekday' ? 'weekend' : 'weekday';
+
+  return model.buckets.get(baselineKey(zoneId, dayType, hour))
+    ?? model.buckets.get(baselineKey(zoneId, otherDayType, hour));
+}
@@ -0,0 +1,368 @@
+/**
+ * Shared WebSocket Protocol
+ *
+ * Message shapes exchanged between the mock server and the dashboard.
+ *
+ * Server → client messages are wrapped in a versioned envelope
+ * `{ type, version, payload }` (see ServerMessage) and validated on receipt
+ * with parseServerMessage, so malformed messages, unknown types or a future
+ * protocol version are rejected instead of reaching application state.
+ * Client → server messages are plain `{ type, ... }` objects validated by
+ * the server with parseClientMessage; invalid ones get an `error` reply.
+ *
+ * Reconnect backfill:
+ * 1. After reconnecting, the client sends `resume` with the timestamp of the
+ *    newest reading it has seen.
+ * 2. The server replies with a `backfill` message containing the readings
+ *    broadcast after that time (oldest first), capped at MAX_BACKFILL_READINGS.
+ * Live readings keep flowing meanwhile, so clients must merge backfilled
+ * readings in timestamp order and de-duplicate by zone + timestamp.
+ *
+ * Subscriptions:
+ * New connections receive every field of every zone at full rate. The first
+ * `subscribe` naming zones narrows the feed to those zones; later ones add
+ * to it, and `unsubscribe` removes zones. `fields` and `intervalMs` replace
+ * the current values when given. The server acknowledges each change with
+ * `subscribed` carrying the resulting subscription. Subscriptions are per
+ * connection, so clients re-send them after reconnecting (before `resume`,
+ * which replays only what the subscription allows).
+ *
+ * Heartbeats:
+ * The server sends `heartbeat` every few seconds, so a connection that goes
+ * quiet for several intervals can be treated as dead. Clients measure
+ * round-trip latency by sending `ping` with their own clock time, which the
+ * server echoes back in `pong`.
+ */
+
+import { ANOMALY_TYPES, ANOMALY_UNITS, type Anomaly } from './anomalies';
+import { isTriage } from './anomalyTriage';
+import { parseZonesConfig, type ZoneConfig } from './zones';
+
+// Version of the server → client envelope; other versions are rejected
+export const PROTOCOL_VERSION = 1;
+
+export interface SensorReading {
+  timestamp: string;
+  zoneId: string;
+  zoneName: string;
+  energyKw: number;
+  temperature: number;
+  equipmentCount: number;
+}
+
+// Reading as sent to a client subscribed to a subset of fields
+export type ReadingPayload = Pick<SensorReading, 'timestamp' | 'zoneId'> & Partial<SensorReading>;
+
+// Optional reading fields (timestamp and zoneId are always sent)
+export type ReadingField = 'zoneName' | 'energyKw' | 'temperature' | 'equipmentCount';
+
+export const READING_FIELDS: ReadingField[] = ['zoneName', 'energyKw', 'temperature', 'equipmentCount'];
+
+// What a connection receives ('*' means everything)
+export interface Subscription {
+  zones: string[] | '*';
+  fields: ReadingField[] | '*';
+  intervalMs: number; // Minimum time between readings per zone (0 = every reading)
+}
+
+export const DEFAULT_SUBSCRIPTION: Subscription = { zones: '*', fields: '*', intervalMs: 0 };
+
+// Client → server: receive more zones and/or change fields or rate
+export interface SubscribeMessage {
+  type: 'subscribe';
+  zones?: string[] | '*';
+  fields?: ReadingField[] | '*';
+  intervalMs?: number;
+}
+
+// Client → server: stop receiving zones
+export interface UnsubscribeMessage {
+  type: 'unsubscribe';
+  zones: string[];
+}
+
+// Client → server: replay readings broadcast after `since`
+export interface ResumeMessage {
+  type: 'resume';
+  since: string; // ISO timestamp of the newest reading the client has seen
+}
+
+// Client → server: latency probe, answered with `pong`
+export interface PingMessage {
+  type: 'ping';
+  sentAt: number; // Client clock (ms since epoch), echoed back unchanged
+}
+
+export type ClientMessage = ResumeMessage | SubscribeMessage | UnsubscribeMessage | PingMessage;
+
+// Readings missed while disconnected
+export interface BackfillPayload {
+  since: string;
+  readings: ReadingPayload[]; // Oldest first, limited to the subscribed fields
+  truncated: boolean; // True when older missed readings were dropped by the cap
+}
+
+// Periodic liveness signal
+export interface HeartbeatPayload {
+  serverTime: string;
+}
+
+// Reply to a client ping
+export interface PongPayload {
+  sentAt: number;
+  serverTime: string;
+}
+
+// Zone configuration reloaded on the server
+export interface ConfigChangedPayload {
+  zones: ZoneConfig[];
+}
+
+export interface ErrorPayload {
+  code: 'invalid-message';
+  message: string;
+}
+
+interface Envelope<T extends string, P> {
+  type: T;
+  version: number;
+  payload: P;
+}
+
+// Server → client messages
+export type ServerMessage =
+  | Envelope<'reading', ReadingPayload>
+  | Envelope<'backfill', BackfillPayload>
+  | Envelope<'subscribed', Subscription> // Subscription after a subscribe/unsubscribe
+  | Envelope<'anomaly', Anomaly>
+  | Envelope<'heartbeat', HeartbeatPayload>
+  | Envelope<'pong', PongPayload>
+  | Envelope<'config-changed', ConfigChangedPayload>
+  | Envelope<'error', ErrorPayload>;
+
+export type ServerMessageType = ServerMessage['type'];
+
+type PayloadOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>['payload'];
+
+// Longest allowed interval between readings per zone
+export const MAX_SUBSCRIPTION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Most readings replayed in one backfill (the newest are kept)
+export const MAX_BACKFILL_READINGS = 7500;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isFieldList(value: unknown): value is ReadingField[] | '*' {
+  return value === '*'
+    || (Array.isArray(value) && value.every(field => READING_FIELDS.includes(field as ReadingField)));
+}
+
+function isInterval(value: unknown): value is number {
+  return typeof value === 'number'
+    && Number.isFinite(value)
+    && value >= 0
+    && value <= MAX_SUBSCRIPTION_INTERVAL_MS;
+}
+
+/**
+ * Parse a raw client message, returning null for anything unrecognised
+ * or malformed
+ */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!isObject(message)) return null;
+
+  switch (message.type) {
+    case 'resume':
+      return isTimestamp(message.since) ? { type: 'resume', since: message.since } : null;
+
+    case 'subscribe': {
+      const { zones, fields, intervalMs } = message;
+      if (zones !== undefined && zones !== '*' && !isStringArray(zones)) return null;
+      if (fields !== undefined && !isFieldList(fields)) return null;
+      if (intervalMs !== undefined && !isInterval(intervalMs)) return null;
+      return { type: 'subscribe', zones, fields, intervalMs };
+    }
+
+    case 'unsubscribe':
+      return isStringArray(message.zones) ? { type: 'unsubscribe', zones: message.zones } : null;
+
+    case 'ping':
+      return typeof message.sentAt === 'number' && Number.isFinite(message.sentAt)
+        ? { type: 'ping', sentAt: message.sentAt }
+        : null;
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Server messages
+// ============================================================================
+
+/**
+ * Serialise a server message in the current envelope version
+ */
+export function encodeServerMessage<T extends ServerMessageType>(type: T, payload: PayloadOf<T>): string {
+  return JSON.stringify({ type, version: PROTOCOL_VERSION, payload });
+}
+
+function isOptional<T>(value: unknown, check: (value: unknown) => value is T): boolean {
+  return value === undefined || check(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value !== '';
+}
+
+function isReadingPayload(value: unknown): value is ReadingPayload {
+  return isObject(value)
+    && isTimestamp(value.timestamp)
+    && isNonEmptyString(value.zoneId)
+    && isOptional(value.zoneName, isNonEmptyString)
+    && isOptional(value.energyKw, isFiniteNumber)
+    && isOptional(value.temperature, isFiniteNumber)
+    && isOptional(value.equipmentCount, isCount);
+}
+
+function isSubscription(value: unknown): value is Subscription {
+  return isObject(value)
+    && (value.zones === '*' || isStringArray(value.zones))
+    && isFieldList(value.fields)
+    && isInterval(value.intervalMs);
+}
+
+/**
+ * Check an incident (from the WebSocket feed or the browser's storage)
+ */
+export function isAnomaly(value: unknown): value is Anomaly {
+  return isObject(value)
+    && isNonEmptyString(value.id)
+    && ANOMALY_TYPES.includes(value.type as Anomaly['type'])
+    && isNonEmptyString(value.zoneId)
+    && typeof value.zoneName === 'string'
+    && isTimestamp(value.timestamp)
+    && isFiniteNumber(value.value)
+    && isFiniteNumber(value.threshold)
+    && (value.severity === 'warning' || value.severity === 'critical')
+    && isTimestamp(value.startTime)
+    && (value.endTime === null || isTimestamp(value.endTime))
+    && isFiniteNumber(value.peakValue)
+    && isCount(value.durationMs)
+    && isCount(value.readingCount)
+    && (value.status === 'active' || value.status === 'resolved')
+    && (value.ruleId === undefined || isNonEmptyString(value.ruleId))
+    && (value.ruleName === undefined || typeof value.ruleName === 'string')
+    && (value.ruleUnit === undefined || ANOMALY_UNITS.includes(value.ruleUnit as Anomaly['ruleUnit'] & string))
+    && (value.triage === undefined || isTriage(value.triage));
+}
+
+/**
+ * Validate a payload for its message type, returning an error description
+ * or null when valid
+ */
+function validatePayload(type: string, payload: unknown): string | null {
+  switch (type) {
+    case 'reading':
+      return isReadingPayload(payload) ? null : 'invalid reading';
+
+    case 'backfill':
+      return isObject(payload)
+        && isTimestamp(payload.since)
+        && Array.isArray(payload.readings)
+        && payload.readings.every(isReadingPayload)
+        && typeof payload.truncated === 'boolean'
+        ? null
+        : 'invalid backfill';
+
+    case 'subscribed':
+      return isSubscription(payload) ? null : 'invalid subscription';
+
+    case 'anomaly':
+      return isAnomaly(payload) ? null : 'invalid anomaly';
+
+    case 'heartbeat':
+      return isObject(payload) && isTimestamp(payload.serverTime) ? null : 'invalid heartbeat';
+
+    case 'pong':
+      return isObject(payload) && isFiniteNumber(payload.sentAt) && isTimestamp(payload.serverTime)
+        ? null
+        : 'invalid pong';
+
+    case 'config-changed':
+      try {
+        parseZonesConfig(payload);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'invalid zones config';
+      }
+
+    case 'error':
+      return isObject(payload) && typeof payload.code === 'string' && typeof payload.message === 'string'
+        ? null
+        : 'invalid error';
+
+    default:
+      return 'unknown message type';
+  }
+}
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; error: string };
+
+/**
+ * Parse and validate a raw server message
+ */
+export function parseServerMessage(raw: string): ParseResult {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'not valid JSON' };
+  }
+
+  if (!isObject(message) || typeof message.type !== 'string' || !('payload' in message)) {
+    return { ok: false, error: 'not a message envelope' };
+  }
+  if (message.version !== PROTOCOL_VERSION) {
+    return { ok: false, error: `unsupported protocol version ${JSON.stringify(message.version)}` };
+  }
+
+  const error = validatePayload(message.type, message.payload);
+  return error
+    ? { ok: false, error: `${message.type}: ${error}` }
+    : { ok: true, message: message as unknown as ServerMessage };
+}
+
+/**
+ * Check that a reading carries every subscribed field
+ */
+export function hasSubscribedFields(reading: ReadingPayload, fields: ReadingField[] | '*'): boolean {
+  return (fields === '*' ? READING_FIELDS : fields).every(field => reading[field] !== undefined);
+}
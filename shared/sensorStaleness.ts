@@ -0,0 +1,103 @@
+/**
+ * Sensor Staleness: notice zones that stop reporting while connected
+ *
+ * Each zone normally reports several times a second, so a zone that has been
+ * silent for `staleAfterMs` is shown as stale on its card, and one silent for
+ * `offlineAfterMs` raises a 'sensor-offline' incident (critical once silent
+ * for `criticalAfterMs`). Silence is measured with the local clock from when
+ * readings are recorded, so clock skew and replayed readings don't matter.
+ *
+ * The mock server raises the sensor-offline incidents; the dashboard uses
+ * the tracker only to mark stale cards.
+ */
+
+import type { Anomaly } from './anomalies';
+import type { SensorReading } from './protocol';
+
+export interface StalenessOptions {
+  staleAfterMs: number;
+  offlineAfterMs: number;
+  criticalAfterMs: number;
+}
+
+const DEFAULT_STALENESS_OPTIONS: StalenessOptions = {
+  staleAfterMs: 5000,
+  offlineAfterMs: 15000,
+  criticalAfterMs: 60000,
+};
+
+export interface StalenessTracker {
+  record(reading: SensorReading, receivedAt: number): void;
+  getStaleZones(now: number): Map<string, number>; // Zone id → ms since last reading
+  detectOffline(now: number): Anomaly[];
+  reset(now: number): void; // Restart every zone's silence (e.g. after reconnecting)
+  forget(zoneId: string): void; // Stop tracking a zone (e.g. the zone was removed)
+}
+
+/**
+ * Create a tracker of when each zone last reported
+ *
+ * detectOffline reports one detection per silent zone on every call; they
+ * are merged into a single incident per zone by updateOfflineIncidents (see
+ * anomalyLifecycle.ts), and the incident resolves when the zone reports again.
+ */
+export function createStalenessTracker(
+  options: Partial<StalenessOptions> = {}
+): StalenessTracker {
+  const { staleAfterMs, offlineAfterMs, criticalAfterMs } = { ...DEFAULT_STALENESS_OPTIONS, ...options };
+  const lastReports = new Map<string, { reading: SensorReading; receivedAt: number }>();
+
+  function getStaleZones(now: number): Map<string, number> {
+    const stale = new Map<string, number>();
+    for (const [zoneId, { receivedAt }] of lastReports) {
+      const silentMs = now - receivedAt;
+      if (silentMs >= staleAfterMs) stale.set(zoneId, silentMs);
+    }
+    return stale;
+  }
+
+  function detectOffline(now: number): Anomaly[] {
+    const detections: Anomaly[] = [];
+
+    for (const { reading, receivedAt } of lastReports.values()) {
+      const silentMs = now - receivedAt;
+      if (silentMs < offlineAfterMs) continue;
+
+      const startTime = new Date(receivedAt).toISOString();
+      detections.push({
+        id: `${reading.zoneId}-sensor-offline-${startTime}`,
+        type: 'sensor-offline',
+        zoneId: reading.zoneId,
+        zoneName: reading.zoneName,
+        timestamp: new Date(now).toISOString(),
+        value: reading.energyKw,
+        threshold: offlineAfterMs,
+        severity: silentMs >= criticalAfterMs ? 'critical' : 'warning',
+        startTime,
+        endTime: null,
+        peakValue: reading.energyKw,
+        durationMs: silentMs,
+        readingCount: 0,
+        status: 'active',
+      });
+    }
+
+    return detections;
+  }
+
+  return {
+    record: (reading, receivedAt) => {
+      lastReports.set(reading.zoneId, { reading, receivedAt });
+    },
+    getStaleZones,
+    detectOffline,
+    reset: (now) => {
+      for (const report of lastReports.values()) {
+        report.receivedAt = now;
+      }
+    },
+    forget: (zoneId) => {
+      lastReports.delete(zoneId);
+    },
+  };
+}
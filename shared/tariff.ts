@@ -0,0 +1,184 @@
+/**
+ * Shared Tariff Configuration
+ *
+ * Types and validation for data/tariff-config.json, the time-of-use contract
+ * used to price energy: rate bands (e.g. peak, shoulder, off-peak) assigned
+ * to hours of the day per weekday, plus an optional demand charge on the
+ * month's highest 15-minute average plant demand, with the site limit the
+ * plant should keep that demand under.
+ *
+ * Periods are checked in order and the first one matching a time wins;
+ * times outside every period use defaultBand. A period whose end is before
+ * its start wraps past midnight on the same listed days (e.g. mon 22-6 covers
+ * Monday 0-6 and Monday 22-24). Times are local, like zone operating hours.
+ */
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Indexed by Date.getDay()
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface TariffBand {
+  id: string;
+  name: string;
+  ratePerKwh: number;
+  color?: string;
+}
+
+export interface TariffPeriod {
+  days: Weekday[];
+  start: number; // Hour of day the band starts
+  end: number; // Hour of day the band ends, exclusive
+  band: string; // TariffBand id
+}
+
+export interface DemandCharge {
+  ratePerKw: number; // Charged per kW of the month's peak 15-minute average demand
+  limitKw?: number; // Site demand limit to stay under (alarms in the dashboard)
+}
+
+export interface TariffConfig {
+  name: string;
+  bands: TariffBand[];
+  periods: TariffPeriod[];
+  defaultBand: string;
+  demandCharge?: DemandCharge;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_BAND_LOOKAHEAD_HOURS = 7 * 24;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 24;
+}
+
+/**
+ * Check if a period covers the given weekday and hour
+ */
+function periodMatches(period: TariffPeriod, weekday: Weekday, hour: number): boolean {
+  if (!period.days.includes(weekday)) return false;
+
+  return period.start < period.end
+    ? hour >= period.start && hour < period.end
+    : hour >= period.start || hour < period.end;
+}
+
+/**
+ * Get the tariff band that applies at a time (local time)
+ */
+export function getTariffBand(tariff: TariffConfig, date: Date): TariffBand {
+  const weekday = WEEKDAYS[date.getDay()];
+  const hour = date.getHours();
+  const period = tariff.periods.find(p => periodMatches(p, weekday, hour));
+  const bandId = period?.band ?? tariff.defaultBand;
+
+  // parseTariffConfig guarantees every referenced band exists
+  return tariff.bands.find(band => band.id === bandId)!;
+}
+
+/**
+ * Get the next time the active band changes after `date`, or null if it
+ * stays the same for a week
+ */
+export function getNextBandChange(tariff: TariffConfig, date: Date): Date | null {
+  const current = getTariffBand(tariff, date).id;
+  const hourStart = new Date(date);
+  hourStart.setMinutes(0, 0, 0);
+
+  for (let hours = 1; hours <= MAX_BAND_LOOKAHEAD_HOURS; hours++) {
+    const next = new Date(hourStart.getTime() + hours * HOUR_MS);
+    if (getTariffBand(tariff, next).id !== current) return next;
+  }
+  return null;
+}
+
+/**
+ * Validate the parsed contents of tariff-config.json
+ *
+ * Throws a single Error listing every problem found.
+ */
+export function parseTariffConfig(raw: unknown): TariffConfig {
+  if (!isObject(raw) || !Array.isArray(raw.bands) || !Array.isArray(raw.periods)) {
+    throw new Error('Invalid tariff config: expected an object with "bands" and "periods" arrays');
+  }
+
+  const errors: string[] = [];
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    errors.push('name must be a non-empty string');
+  }
+
+  const bandIds: string[] = [];
+  raw.bands.forEach((band, index) => {
+    const path = `bands[${index}]`;
+    if (!isObject(band)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof band.id !== 'string' || band.id === '') {
+      errors.push(`${path}.id must be a non-empty string`);
+    } else if (bandIds.includes(band.id)) {
+      errors.push(`${path}.id "${band.id}" is duplicated`);
+    } else {
+      bandIds.push(band.id);
+    }
+    if (typeof band.name !== 'string' || band.name === '') {
+      errors.push(`${path}.name must be a non-empty string`);
+    }
+    if (!isRate(band.ratePerKwh)) {
+      errors.push(`${path}.ratePerKwh must be a non-negative number`);
+    }
+    if (band.color !== undefined && typeof band.color !== 'string') {
+      errors.push(`${path}.color must be a string`);
+    }
+  });
+
+  if (raw.bands.length === 0) {
+    errors.push('bands must contain at least one band');
+  }
+
+  raw.periods.forEach((period, index) => {
+    const path = `periods[${index}]`;
+    if (!isObject(period)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (!Array.isArray(period.days) || period.days.length === 0
+      || !period.days.every(day => WEEKDAYS.includes(day as Weekday))) {
+      errors.push(`${path}.days must list weekdays (${WEEKDAYS.join(', ')})`);
+    }
+    if (!isHour(period.start) || !isHour(period.end) || period.start === period.end) {
+      errors.push(`${path} must have distinct start and end hours (0-24)`);
+    }
+    if (!bandIds.includes(period.band as string)) {
+      errors.push(`${path}.band must be the id of a band`);
+    }
+  });
+
+  if (!bandIds.includes(raw.defaultBand as string)) {
+    errors.push('defaultBand must be the id of a band');
+  }
+
+  const demand = raw.demandCharge;
+  if (demand !== undefined) {
+    if (!isObject(demand) || !isRate(demand.ratePerKw)) {
+      errors.push('demandCharge.ratePerKw must be a non-negative number');
+    } else if (demand.limitKw !== undefined && (!isRate(demand.limitKw) || demand.limitKw === 0)) {
+      errors.push('demandCharge.limitKw must be a positive number');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid tariff config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as unknown as TariffConfig;
+}
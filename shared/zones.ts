@@ -0,0 +1,228 @@
+/**
+ * Shared Zone Configuration
+ *
+ * Types and validation for data/zones-config.json. The backend (mock server,
+ * data generator) and the frontend both load the same file at runtime and run
+ * it through parseZonesConfig, so adding a zone is a config change only.
+ */
+
+export type ZonePriority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface OperatingHours {
+  type: '24/7' | 'scheduled';
+  start: number | null; // Hour of day the zone starts (scheduled zones only)
+  end: number | null; // Hour of day the zone stops, exclusive (scheduled zones only)
+}
+
+export interface ZoneConfig {
+  id: string;
+  name: string;
+  description: string;
+  location: string;
+  expectedRange: { min: number; max: number };
+  criticalThreshold: number;
+  equipmentCount: number;
+  operatingHours: OperatingHours;
+  priority: ZonePriority;
+  costPerKwh: number;
+  baselineTemperature: number;
+  temperatureRange?: { min: number; max: number }; // Normal temperature band (°C)
+  criticalTemperature?: number; // Temperature that is critical (°C)
+  offHoursRange?: { min: number; max: number }; // Idle load outside operating hours
+  color?: string; // Chart colour (optional, falls back to a default palette)
+}
+
+export interface ZonesConfigFile {
+  version: number;
+  zones: ZoneConfig[];
+}
+
+const PRIORITIES: ZonePriority[] = ['critical', 'high', 'medium', 'low'];
+
+// Idle load assumed for scheduled zones without an explicit offHoursRange
+const DEFAULT_OFF_HOURS_FACTOR = { min: 0.1, max: 0.2 };
+
+// Temperature limits around baselineTemperature for zones without explicit ones (°C)
+const DEFAULT_TEMPERATURE_MARGIN = 5;
+const DEFAULT_CRITICAL_TEMPERATURE_MARGIN = 10;
+
+/**
+ * Check if a zone is operating at the given hour of day
+ *
+ * Schedules may wrap past midnight (e.g. start 22, end 6).
+ */
+export function isZoneOperating(zone: ZoneConfig, hour: number): boolean {
+  if (zone.operatingHours.type === '24/7') {
+    return true;
+  }
+
+  const start = zone.operatingHours.start!;
+  const end = zone.operatingHours.end!;
+
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Get the expected energy range for a zone at the given hour of day
+ *
+ * Inside operating hours this is expectedRange; outside them it is the
+ * configured offHoursRange, or a fraction of expectedRange by default.
+ */
+export function getExpectedRange(zone: ZoneConfig, hour: number): { min: number; max: number } {
+  if (isZoneOperating(zone, hour)) {
+    return zone.expectedRange;
+  }
+
+  return zone.offHoursRange ?? {
+    min: zone.expectedRange.min * DEFAULT_OFF_HOURS_FACTOR.min,
+    max: zone.expectedRange.max * DEFAULT_OFF_HOURS_FACTOR.max,
+  };
+}
+
+/**
+ * Get the temperature limits for a zone (°C)
+ *
+ * Zones without temperatureRange or criticalTemperature get limits around
+ * their baselineTemperature.
+ */
+export function getTemperatureLimits(zone: ZoneConfig): { min: number; max: number; critical: number } {
+  const range = zone.temperatureRange ?? {
+    min: zone.baselineTemperature - DEFAULT_TEMPERATURE_MARGIN,
+    max: zone.baselineTemperature + DEFAULT_TEMPERATURE_MARGIN,
+  };
+  return {
+    ...range,
+    critical: zone.criticalTemperature ?? zone.baselineTemperature + DEFAULT_CRITICAL_TEMPERATURE_MARGIN,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 24;
+}
+
+/**
+ * Collect validation problems for a single zone entry
+ */
+function validateZone(zone: unknown, path: string): string[] {
+  if (!isObject(zone)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+
+  for (const key of ['id', 'name', 'description', 'location']) {
+    if (typeof zone[key] !== 'string' || (zone[key] as string).trim() === '') {
+      errors.push(`${path}.${key} must be a non-empty string`);
+    }
+  }
+
+  const range = zone.expectedRange;
+  if (!isObject(range) || !isFiniteNumber(range.min) || !isFiniteNumber(range.max)) {
+    errors.push(`${path}.expectedRange must have numeric min and max`);
+  } else if (range.min < 0 || range.min >= range.max) {
+    errors.push(`${path}.expectedRange must satisfy 0 <= min < max`);
+  } else if (isFiniteNumber(zone.criticalThreshold) && zone.criticalThreshold <= range.max) {
+    errors.push(`${path}.criticalThreshold must be above expectedRange.max`);
+  }
+
+  if (!isFiniteNumber(zone.criticalThreshold)) {
+    errors.push(`${path}.criticalThreshold must be a number`);
+  }
+
+  if (!Number.isInteger(zone.equipmentCount) || (zone.equipmentCount as number) < 0) {
+    errors.push(`${path}.equipmentCount must be a non-negative integer`);
+  }
+
+  const hours = zone.operatingHours;
+  if (!isObject(hours) || (hours.type !== '24/7' && hours.type !== 'scheduled')) {
+    errors.push(`${path}.operatingHours.type must be "24/7" or "scheduled"`);
+  } else if (hours.type === 'scheduled') {
+    if (!isHour(hours.start) || !isHour(hours.end) || hours.start === hours.end) {
+      errors.push(`${path}.operatingHours must have distinct start and end hours (0-24)`);
+    }
+  }
+
+  if (!PRIORITIES.includes(zone.priority as ZonePriority)) {
+    errors.push(`${path}.priority must be one of ${PRIORITIES.join(', ')}`);
+  }
+
+  if (!isFiniteNumber(zone.costPerKwh) || zone.costPerKwh < 0) {
+    errors.push(`${path}.costPerKwh must be a non-negative number`);
+  }
+
+  if (!isFiniteNumber(zone.baselineTemperature)) {
+    errors.push(`${path}.baselineTemperature must be a number`);
+  }
+
+  const temperatureRange = zone.temperatureRange;
+  if (temperatureRange !== undefined) {
+    if (!isObject(temperatureRange)
+      || !isFiniteNumber(temperatureRange.min) || !isFiniteNumber(temperatureRange.max)) {
+      errors.push(`${path}.temperatureRange must have numeric min and max`);
+    } else if (temperatureRange.min >= temperatureRange.max) {
+      errors.push(`${path}.temperatureRange must satisfy min < max`);
+    } else if (isFiniteNumber(zone.criticalTemperature) && zone.criticalTemperature <= temperatureRange.max) {
+      errors.push(`${path}.criticalTemperature must be above temperatureRange.max`);
+    }
+  }
+
+  if (zone.criticalTemperature !== undefined && !isFiniteNumber(zone.criticalTemperature)) {
+    errors.push(`${path}.criticalTemperature must be a number`);
+  }
+
+  const offHours = zone.offHoursRange;
+  if (offHours !== undefined) {
+    if (!isObject(offHours) || !isFiniteNumber(offHours.min) || !isFiniteNumber(offHours.max)) {
+      errors.push(`${path}.offHoursRange must have numeric min and max`);
+    } else if (offHours.min < 0 || offHours.min >= offHours.max) {
+      errors.push(`${path}.offHoursRange must satisfy 0 <= min < max`);
+    }
+  }
+
+  if (zone.color !== undefined && typeof zone.color !== 'string') {
+    errors.push(`${path}.color must be a string`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the parsed contents of zones-config.json
+ *
+ * Throws a single Error listing every problem found, so a broken config
+ * fails loudly at startup rather than producing odd readings later.
+ */
+export function parseZonesConfig(raw: unknown): ZoneConfig[] {
+  if (!isObject(raw) || !Array.isArray(raw.zones)) {
+    throw new Error('Invalid zones config: expected an object with a "zones" array');
+  }
+
+  const errors = raw.zones.flatMap((zone, index) => validateZone(zone, `zones[${index}]`));
+
+  const ids = raw.zones.map(zone => (isObject(zone) ? zone.id : undefined));
+  ids.forEach((id, index) => {
+    if (typeof id === 'string' && ids.indexOf(id) !== index) {
+      errors.push(`zones[${index}].id "${id}" is duplicated`);
+    }
+  });
+
+  if (raw.zones.length === 0) {
+    errors.push('zones must contain at least one zone');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid zones config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw.zones as ZoneConfig[];
+}